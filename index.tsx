@@ -1,31 +1,313 @@
 
-import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback, createContext, useContext, useSyncExternalStore } from 'react';
 import { createRoot } from 'react-dom/client';
 
 // --- Nervous System (Audio & Haptics) ---
 
-const useNervousSystem = () => {
+type NoiseColor = 'white' | 'pink' | 'brown';
+
+// One voice of an ambient soundscape; gains are relative to the hum bus
+type SoundLayer =
+  | { kind: 'tone'; frequency: number; gain: number; wave?: OscillatorType; detune?: number; lfoRate?: number; lfoDepth?: number }
+  | { kind: 'noise'; color: NoiseColor; gain: number; filter?: BiquadFilterType; frequency?: number; q?: number; sweepRate?: number }
+  | { kind: 'grains'; frequency: number; gain: number; spread: number; density: number; grainLength: number; wave?: OscillatorType };
+
+interface Soundscape {
+  layers: SoundLayer[];
+}
+
+interface SoundscapeScene {
+  output: GainNode;
+  sources: AudioScheduledSourceNode[];
+  timers: ReturnType<typeof setInterval>[];
+}
+
+const SOUNDSCAPE_CROSSFADE = 2.5; // seconds
+const GRAIN_TICK = 0.1; // seconds between grain scheduling passes
+
+const createNoiseBuffer = (ctx: AudioContext, color: NoiseColor) => {
+  const length = ctx.sampleRate * 2;
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  let b0 = 0, b1 = 0, b2 = 0, last = 0;
+  for (let i = 0; i < length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (color === 'pink') {
+      // Paul Kellet's economy pink filter
+      b0 = 0.99765 * b0 + white * 0.0990460;
+      b1 = 0.96300 * b1 + white * 0.2965164;
+      b2 = 0.57000 * b2 + white * 1.0526913;
+      data[i] = (b0 + b1 + b2 + white * 0.1848) * 0.25;
+    } else if (color === 'brown') {
+      last = (last + 0.02 * white) / 1.02;
+      data[i] = last * 3.5;
+    } else {
+      data[i] = white;
+    }
+  }
+  return buffer;
+};
+
+// Synthesizes a soundscape into `destination`, fading in over `fadeIn` seconds
+const buildSoundscape = (
+  ctx: AudioContext, 
+  soundscape: Soundscape, 
+  destination: AudioNode, 
+  noiseCache: Partial<Record<NoiseColor, AudioBuffer>>,
+  fadeIn: number
+): SoundscapeScene => {
+  const now = ctx.currentTime;
+  const output = ctx.createGain();
+  output.gain.setValueAtTime(0, now);
+  output.gain.linearRampToValueAtTime(1, now + fadeIn);
+  output.connect(destination);
+
+  const scene: SoundscapeScene = { output, sources: [], timers: [] };
+
+  soundscape.layers.forEach(layer => {
+    const layerGain = ctx.createGain();
+    layerGain.gain.value = layer.gain;
+    layerGain.connect(output);
+
+    if (layer.kind === 'tone') {
+      const osc = ctx.createOscillator();
+      osc.type = layer.wave ?? 'sine';
+      osc.frequency.value = layer.frequency;
+      osc.detune.value = layer.detune ?? 0;
+      osc.connect(layerGain);
+      osc.start(now);
+      scene.sources.push(osc);
+
+      // Slow tremolo keeps static tones breathing
+      if (layer.lfoRate) {
+        const lfo = ctx.createOscillator();
+        const depth = ctx.createGain();
+        lfo.frequency.value = layer.lfoRate;
+        depth.gain.value = layer.gain * (layer.lfoDepth ?? 0.5) * 0.5;
+        lfo.connect(depth);
+        depth.connect(layerGain.gain);
+        lfo.start(now);
+        scene.sources.push(lfo);
+      }
+    }
+
+    if (layer.kind === 'noise') {
+      const buffer = noiseCache[layer.color] ?? (noiseCache[layer.color] = createNoiseBuffer(ctx, layer.color));
+      const noise = ctx.createBufferSource();
+      noise.buffer = buffer;
+      noise.loop = true;
+      const filter = ctx.createBiquadFilter();
+      filter.type = layer.filter ?? 'lowpass';
+      filter.frequency.value = layer.frequency ?? 1000;
+      filter.Q.value = layer.q ?? 1;
+      noise.connect(filter);
+      filter.connect(layerGain);
+      noise.start(now, Math.random() * buffer.duration);
+      scene.sources.push(noise);
+
+      // Filter sweep: wind gusts, breathing smoke
+      if (layer.sweepRate) {
+        const lfo = ctx.createOscillator();
+        const depth = ctx.createGain();
+        lfo.frequency.value = layer.sweepRate;
+        depth.gain.value = filter.frequency.value * 0.5;
+        lfo.connect(depth);
+        depth.connect(filter.frequency);
+        lfo.start(now);
+        scene.sources.push(lfo);
+      }
+    }
+
+    if (layer.kind === 'grains') {
+      // Granular texture: short enveloped blips scattered around a center pitch
+      const timer = setInterval(() => {
+        const expected = layer.density * GRAIN_TICK;
+        const count = Math.floor(expected) + (Math.random() < expected % 1 ? 1 : 0);
+        for (let i = 0; i < count; i++) {
+          const start = ctx.currentTime + Math.random() * GRAIN_TICK;
+          const osc = ctx.createOscillator();
+          const env = ctx.createGain();
+          osc.type = layer.wave ?? 'sine';
+          osc.frequency.value = layer.frequency * Math.pow(2, (Math.random() * 2 - 1) * layer.spread);
+          env.gain.setValueAtTime(0, start);
+          env.gain.linearRampToValueAtTime(1, start + layer.grainLength * 0.3);
+          env.gain.exponentialRampToValueAtTime(0.001, start + layer.grainLength);
+          osc.connect(env);
+          env.connect(layerGain);
+          osc.start(start);
+          osc.stop(start + layer.grainLength + 0.05);
+        }
+      }, GRAIN_TICK * 1000);
+      scene.timers.push(timer);
+    }
+  });
+
+  return scene;
+};
+
+const createDistortionCurve = (amount: number) => {
+  if (amount <= 0) return null;
+  const k = amount * 200;
+  const samples = 1024;
+  const curve = new Float32Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const x = (i * 2) / samples - 1;
+    curve[i] = ((3 + k) * x * 20 * (Math.PI / 180)) / (Math.PI + k * Math.abs(x));
+  }
+  return curve;
+};
+
+const releaseSoundscape = (ctx: AudioContext, scene: SoundscapeScene, fadeOut: number) => {
+  const now = ctx.currentTime;
+  scene.timers.forEach(timer => clearInterval(timer));
+  scene.output.gain.cancelScheduledValues(now);
+  scene.output.gain.setValueAtTime(scene.output.gain.value, now);
+  scene.output.gain.linearRampToValueAtTime(0, now + fadeOut);
+  scene.sources.forEach(source => {
+    try { source.stop(now + fadeOut); } catch { /* already stopped */ }
+  });
+  setTimeout(() => scene.output.disconnect(), fadeOut * 1000 + 100);
+};
+
+type AudioBus = 'sfx' | 'ambient' | 'ui';
+type AudioBusVolumes = Record<AudioBus | 'master', number>;
+
+const DEFAULT_BUS_VOLUMES: AudioBusVolumes = { master: 1, sfx: 1, ambient: 1, ui: 1 };
+
+interface NervousSettings {
+  masterVolume: number;    // 0..1
+  effectsVolume: number;   // 0..1, the sfx bus: thuds, whooshes, unlocks
+  ambientVolume: number;   // 0..1
+  uiVolume: number;        // 0..1
+  hapticsEnabled: boolean;
+  hapticIntensity: number; // 0..1
+}
+
+const SETTINGS_STORAGE_KEY = 'jeeni.nervous-settings';
+const DEFAULT_SETTINGS: NervousSettings = { masterVolume: 1, effectsVolume: 1, ambientVolume: 1, uiVolume: 1, hapticsEnabled: true, hapticIntensity: 0.5 };
+
+// Stored values end up on AudioParams, so anything out of range falls back to its default and unknown keys are dropped
+const readUnit = (value: unknown, fallback: number) =>
+  typeof value === 'number' && isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+const loadSettings = (): NervousSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}') ?? {};
+    return {
+      masterVolume: readUnit(stored.masterVolume, DEFAULT_SETTINGS.masterVolume),
+      effectsVolume: readUnit(stored.effectsVolume, DEFAULT_SETTINGS.effectsVolume),
+      ambientVolume: readUnit(stored.ambientVolume, DEFAULT_SETTINGS.ambientVolume),
+      uiVolume: readUnit(stored.uiVolume, DEFAULT_SETTINGS.uiVolume),
+      hapticsEnabled: typeof stored.hapticsEnabled === 'boolean' ? stored.hapticsEnabled : DEFAULT_SETTINGS.hapticsEnabled,
+      hapticIntensity: readUnit(stored.hapticIntensity, DEFAULT_SETTINGS.hapticIntensity),
+    };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+const saveSettings = (settings: NervousSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.log(err);
+  }
+};
+
+const busVolumesFromSettings = (settings: NervousSettings): AudioBusVolumes => ({
+  master: settings.masterVolume,
+  sfx: settings.effectsVolume,
+  ambient: settings.ambientVolume,
+  ui: settings.uiVolume
+});
+
+// The one audio engine for the app; components reach it through useNervousSystem()
+const useNervousSystemEngine = () => {
   const audioContextRef = useRef<AudioContext | null>(null);
-  const humOscillatorRef = useRef<OscillatorNode | null>(null);
+  const busesRef = useRef<Record<AudioBus | 'master', GainNode> | null>(null);
+  const [initialSettings] = useState(loadSettings);
+  const settingsRef = useRef<NervousSettings>(initialSettings);
+  const settingsListenersRef = useRef(new Set<() => void>());
+  const busVolumesRef = useRef<AudioBusVolumes>({ ...DEFAULT_BUS_VOLUMES, ...busVolumesFromSettings(settingsRef.current) });
+  const soundscapeRef = useRef<Soundscape>(ATMOSPHERES.void.soundscape);
+  const sceneRef = useRef<SoundscapeScene | null>(null);
+  const noiseCacheRef = useRef<Partial<Record<NoiseColor, AudioBuffer>>>({});
   const humGainRef = useRef<GainNode | null>(null);
   const humFilterRef = useRef<BiquadFilterNode | null>(null);
   const humPannerRef = useRef<StereoPannerNode | null>(null);
+  const humShaperRef = useRef<WaveShaperNode | null>(null);
+  const distortionRef = useRef(0);
 
   // Initialize Audio Context on first user interaction
+  // Mixer: sfx / ambient / ui buses -> master -> speakers
   const initAudio = useCallback(() => {
     if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const ctx: AudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const master = ctx.createGain();
+      master.gain.value = busVolumesRef.current.master;
+      master.connect(ctx.destination);
+      const createBus = (bus: AudioBus) => {
+        const gain = ctx.createGain();
+        gain.gain.value = busVolumesRef.current[bus];
+        gain.connect(master);
+        return gain;
+      };
+      busesRef.current = { master, sfx: createBus('sfx'), ambient: createBus('ambient'), ui: createBus('ui') };
+      audioContextRef.current = ctx;
     }
     if (audioContextRef.current.state === 'suspended') {
       audioContextRef.current.resume();
     }
   }, []);
 
+  const getBus = useCallback((bus: AudioBus): AudioNode => {
+    return busesRef.current?.[bus] ?? audioContextRef.current!.destination;
+  }, []);
+
+  const setBusVolume = useCallback((bus: AudioBus | 'master', volume: number) => {
+    busVolumesRef.current[bus] = volume;
+    const ctx = audioContextRef.current;
+    const node = busesRef.current?.[bus];
+    if (ctx && node) node.gain.setTargetAtTime(volume, ctx.currentTime, 0.05);
+  }, []);
+
+  // User settings: persisted, and applied here so every sound and vibration honours them
+  const getSettings = useCallback(() => settingsRef.current, []);
+
+  const subscribeSettings = useCallback((listener: () => void) => {
+    settingsListenersRef.current.add(listener);
+    return () => { settingsListenersRef.current.delete(listener); };
+  }, []);
+
+  const updateSettings = useCallback((patch: Partial<NervousSettings>) => {
+    const next = { ...settingsRef.current, ...patch };
+    settingsRef.current = next;
+    saveSettings(next);
+    const volumes = busVolumesFromSettings(next);
+    (Object.keys(volumes) as (AudioBus | 'master')[]).forEach(bus => setBusVolume(bus, volumes[bus]));
+    settingsListenersRef.current.forEach(listener => listener());
+  }, [setBusVolume]);
+
+  const dispose = useCallback(() => {
+    const ctx = audioContextRef.current;
+    sceneRef.current?.timers.forEach(timer => clearInterval(timer));
+    sceneRef.current = null;
+    humGainRef.current = null;
+    humFilterRef.current = null;
+    humPannerRef.current = null;
+    humShaperRef.current = null;
+    busesRef.current = null;
+    audioContextRef.current = null;
+    ctx?.close().catch(() => {});
+  }, []);
+
   // Haptic Engine
   const triggerHaptic = useCallback((type: 'light' | 'heavy') => {
-    if (!navigator.vibrate) return;
-    if (type === 'light') navigator.vibrate(5);
-    if (type === 'heavy') navigator.vibrate(20);
+    const { hapticsEnabled, hapticIntensity } = settingsRef.current;
+    if (!navigator.vibrate || !hapticsEnabled || hapticIntensity <= 0) return;
+    // Default intensity (0.5) gives the original 5ms / 20ms pulses
+    if (type === 'light') navigator.vibrate(Math.max(1, Math.round(10 * hapticIntensity)));
+    if (type === 'heavy') navigator.vibrate(Math.max(1, Math.round(40 * hapticIntensity)));
   }, []);
 
   // Sound Engine: Digital Chirp (Click)
@@ -45,10 +327,10 @@ const useNervousSystem = () => {
     gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.1);
 
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getBus('ui'));
     osc.start();
     osc.stop(ctx.currentTime + 0.1);
-  }, [initAudio]);
+  }, [initAudio, getBus]);
 
   // Sound Engine: Low Thud (Heavy Interaction)
   const playThud = useCallback(() => {
@@ -67,56 +349,81 @@ const useNervousSystem = () => {
     gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.3);
 
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getBus('sfx'));
     osc.start();
     osc.stop(ctx.currentTime + 0.3);
-  }, [initAudio]);
+  }, [initAudio, getBus]);
 
   // Sound Engine: Void Hum (Background Loop)
+  // The active reality's soundscape plays through filter -> panner -> gain, so the spatial helpers below shape all of it
   const toggleVoidHum = useCallback((playing: boolean) => {
     initAudio();
     const ctx = audioContextRef.current;
     if (!ctx) return;
 
-    if (playing && !humOscillatorRef.current) {
-      const osc = ctx.createOscillator();
+    if (playing && !humGainRef.current) {
       const gain = ctx.createGain();
       const filter = ctx.createBiquadFilter(); // For spatial effects/muffling
       const panner = ctx.createStereoPanner(); // For directional audio
       
-      osc.type = 'sine';
-      osc.frequency.setValueAtTime(60, ctx.currentTime); 
+      const shaper = ctx.createWaveShaper(); // For corruption
       
       filter.type = 'lowpass';
       filter.frequency.setValueAtTime(2000, ctx.currentTime);
+      shaper.curve = createDistortionCurve(distortionRef.current);
+      shaper.oversample = '2x';
 
       gain.gain.setValueAtTime(0, ctx.currentTime);
       gain.gain.linearRampToValueAtTime(0.05, ctx.currentTime + 2); // Fade in
 
-      osc.connect(filter);
-      filter.connect(panner);
+      filter.connect(shaper);
+      shaper.connect(panner);
       panner.connect(gain);
-      gain.connect(ctx.destination);
-      osc.start();
+      gain.connect(getBus('ambient'));
       
-      humOscillatorRef.current = osc;
       humGainRef.current = gain;
       humFilterRef.current = filter;
       humPannerRef.current = panner;
-    } else if (!playing && humOscillatorRef.current) {
+      humShaperRef.current = shaper;
+      sceneRef.current = buildSoundscape(ctx, soundscapeRef.current, filter, noiseCacheRef.current, 0.1);
+    } else if (!playing && humGainRef.current) {
       const gain = humGainRef.current;
-      if (gain) {
-        gain.gain.linearRampToValueAtTime(0, ctx.currentTime + 1); // Fade out
-      }
-      setTimeout(() => {
-        humOscillatorRef.current?.stop();
-        humOscillatorRef.current = null;
-        humGainRef.current = null;
-        humFilterRef.current = null;
-        humPannerRef.current = null;
-      }, 1000);
+      const scene = sceneRef.current;
+      gain.gain.cancelScheduledValues(ctx.currentTime);
+      gain.gain.setValueAtTime(gain.gain.value, ctx.currentTime);
+      gain.gain.linearRampToValueAtTime(0, ctx.currentTime + 1); // Fade out
+      if (scene) releaseSoundscape(ctx, scene, 1);
+      setTimeout(() => gain.disconnect(), 1100);
+
+      humGainRef.current = null;
+      humFilterRef.current = null;
+      humPannerRef.current = null;
+      humShaperRef.current = null;
+      sceneRef.current = null;
     }
-  }, [initAudio]);
+  }, [initAudio, getBus]);
+
+  // Corruption: saturate the hum (0 = clean, 1 = fully broken)
+  const setDistortion = useCallback((amount: number) => {
+    const stepped = Math.round(amount * 20) / 20;
+    if (stepped === distortionRef.current) return;
+    distortionRef.current = stepped;
+    if (humShaperRef.current) humShaperRef.current.curve = createDistortionCurve(stepped);
+  }, []);
+
+  // Crossfade the hum to another reality's soundscape (applied on start if the hum is silent)
+  const setSoundscape = useCallback((soundscape: Soundscape) => {
+    if (soundscapeRef.current === soundscape) return;
+    soundscapeRef.current = soundscape;
+
+    const ctx = audioContextRef.current;
+    const filter = humFilterRef.current;
+    if (!ctx || !filter) return;
+
+    const previous = sceneRef.current;
+    sceneRef.current = buildSoundscape(ctx, soundscape, filter, noiseCacheRef.current, SOUNDSCAPE_CROSSFADE);
+    if (previous) releaseSoundscape(ctx, previous, SOUNDSCAPE_CROSSFADE);
+  }, []);
 
   // Spatial Audio: Distance/Muffling (Ritual Exit)
   const modulateEnvironment = useCallback((intensity: number) => {
@@ -170,9 +477,9 @@ const useNervousSystem = () => {
 
      noise.connect(filter);
      filter.connect(gain);
-     gain.connect(ctx.destination);
+     gain.connect(getBus('sfx'));
      noise.start();
-  }, [initAudio]);
+  }, [initAudio, getBus]);
 
   const playMemoryUnlock = useCallback(() => {
     initAudio();
@@ -193,17 +500,167 @@ const useNervousSystem = () => {
         gain.gain.exponentialRampToValueAtTime(0.001, now + 2.0 + (i * 0.5));
 
         osc.connect(gain);
-        gain.connect(ctx.destination);
+        gain.connect(getBus('sfx'));
         osc.start();
         osc.stop(now + 4.0);
     });
-  }, [initAudio]);
+  }, [initAudio, getBus]);
+
+  return useMemo(() => ({ 
+    triggerHaptic, playClick, playThud, toggleVoidHum, setSoundscape, setDistortion, playWhoosh, playMemoryUnlock, modulateEnvironment, setSpatialPosition, setBusVolume,
+    getSettings, subscribeSettings, updateSettings, dispose 
+  }), [triggerHaptic, playClick, playThud, toggleVoidHum, setSoundscape, setDistortion, playWhoosh, playMemoryUnlock, modulateEnvironment, setSpatialPosition, setBusVolume,
+    getSettings, subscribeSettings, updateSettings, dispose]);
+};
+
+type NervousSystem = ReturnType<typeof useNervousSystemEngine>;
+
+const NervousSystemContext = createContext<NervousSystem | null>(null);
+
+const NervousSystemProvider = ({ children }: { children: React.ReactNode }) => {
+  const engine = useNervousSystemEngine();
+
+  // Single lifecycle: the context lives as long as the app does
+  useEffect(() => () => engine.dispose(), [engine]);
+
+  return <NervousSystemContext.Provider value={engine}>{children}</NervousSystemContext.Provider>;
+};
+
+const useNervousSystem = () => {
+  const engine = useContext(NervousSystemContext);
+  if (!engine) throw new Error('useNervousSystem must be used inside <NervousSystemProvider>');
+  return engine;
+};
+
+const useNervousSettings = () => {
+  const nervous = useNervousSystem();
+  const settings = useSyncExternalStore(nervous.subscribeSettings, nervous.getSettings);
+  return [settings, nervous.updateSettings] as const;
+};
+
+// --- Optics (Camera) ---
+
+interface ScanCapture {
+  id: string;
+  dataUrl: string;
+  width: number;
+  height: number;
+  capturedAt: number;
+}
+
+type CameraStatus = 'idle' | 'starting' | 'live' | 'denied' | 'unavailable';
+
+const CAMERA_FALLBACK_IMAGE = 'https://images.unsplash.com/photo-1518544806308-c8f325cc77cc?q=80&w=1000&auto=format&fit=crop';
+const CAPTURE_MAX_EDGE = 1024;
+
+const useCameraFeed = (active: boolean) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const fallbackRef = useRef<HTMLImageElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [status, setStatus] = useState<CameraStatus>('idle');
+
+  // Only hold the camera while the Scanner is on screen
+  useEffect(() => {
+    if (!active) return;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setStatus('unavailable');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('starting');
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } },
+      audio: false
+    }).then(stream => {
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+      const video = videoRef.current;
+      if (video) {
+        video.srcObject = stream;
+        video.play().catch(() => {});
+      }
+      setStatus('live');
+    }).catch((err: DOMException) => {
+      if (cancelled) return;
+      setStatus(err?.name === 'NotAllowedError' ? 'denied' : 'unavailable');
+    });
+
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+      if (videoRef.current) videoRef.current.srcObject = null;
+      setStatus('idle');
+    };
+  }, [active]);
+
+  // Shutter: draw the current frame (live feed, or the placeholder when there is no camera) to a canvas
+  const grabFrame = useCallback((): ScanCapture | null => {
+    const video = videoRef.current;
+    const image = fallbackRef.current;
+    let source: HTMLVideoElement | HTMLImageElement | null = null;
+    let sourceWidth = 0;
+    let sourceHeight = 0;
 
-  return { triggerHaptic, playClick, playThud, toggleVoidHum, playWhoosh, playMemoryUnlock, modulateEnvironment, setSpatialPosition };
+    if (status === 'live' && video && video.videoWidth > 0) {
+      source = video;
+      sourceWidth = video.videoWidth;
+      sourceHeight = video.videoHeight;
+    } else if (image && image.complete && image.naturalWidth > 0) {
+      source = image;
+      sourceWidth = image.naturalWidth;
+      sourceHeight = image.naturalHeight;
+    }
+    if (!source) return null;
+
+    const scale = Math.min(1, CAPTURE_MAX_EDGE / Math.max(sourceWidth, sourceHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(sourceWidth * scale);
+    canvas.height = Math.round(sourceHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    try {
+      ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+      return {
+        id: `scan-${Date.now().toString(36)}`,
+        dataUrl: canvas.toDataURL('image/jpeg', 0.85),
+        width: canvas.width,
+        height: canvas.height,
+        capturedAt: Date.now()
+      };
+    } catch (err) {
+      // Tainted canvas (cross-origin source without CORS)
+      console.log(err);
+      return null;
+    }
+  }, [status]);
+
+  return { videoRef, fallbackRef, status, grabFrame };
 };
 
+type CameraFeed = ReturnType<typeof useCameraFeed>;
+
 // --- Data ---
 
+type ParticleShape = 'circle' | 'square' | 'diamond' | 'star';
+type AtmosphereType = keyof typeof ATMOSPHERES; // the registry in the Atmospheres section is the list
+type AtmosphereColorSource = 'theme' | 'particle' | 'white';
+
+// Tunables every atmosphere module declares defaults for; a reality may override any of them
+interface AtmosphereParams {
+  density: number;              // multiplies the element count (1 = as authored)
+  speed: number;                // multiplies animation speed (2 = twice as fast)
+  color: AtmosphereColorSource; // which reality color tints the layer
+}
+
+const PARTICLE_SHAPES: readonly ParticleShape[] = ['circle', 'square', 'diamond', 'star'];
+const ATMOSPHERE_COLOR_SOURCES: readonly AtmosphereColorSource[] = ['theme', 'particle', 'white'];
+
 interface RealityItem {
   id: string;
   title: string;
@@ -211,11 +668,38 @@ interface RealityItem {
   bgImage: string;
   themeColor: string;
   particleColor: string;
-  particleShape: 'circle' | 'square' | 'diamond' | 'star';
+  particleShape: ParticleShape;
   description: string;
-  atmosphereType: 'smoke' | 'stars' | 'glitch' | 'light_shafts' | 'void';
+  atmosphereType: AtmosphereType;
+  atmosphereParams?: Partial<AtmosphereParams>; // overrides the atmosphere module's defaults
+  soundscape?: Soundscape; // falls back to the atmosphere's soundscape
+  narrative?: NarrativeBeat[]; // falls back to subtitle / title / description
+  links?: RealityLink[];       // offered as paths onward once the narrative ends
+}
+
+interface RealityLink {
+  to: string;    // id of another reality
+  label: string;
 }
 
+// Scripted beats for the Immersive Player. `at` and `duration` are seconds into the sequence.
+type NarrativeCue = 'click' | 'thud' | 'whoosh' | 'unlock';
+type NarrativeTextStyle = 'title' | 'line' | 'whisper';
+
+interface NarrativeOption {
+  label: string;
+  goto?: number; // jump to this point in the sequence; omit to carry on
+}
+
+type NarrativeBeat =
+  | { kind: 'text'; at: number; text: string; style?: NarrativeTextStyle; duration?: number } // no duration = stays up
+  | { kind: 'camera'; at: number; duration: number; zoom: number; x?: number; y?: number }    // push the background; x / y in % of the frame
+  | { kind: 'burst'; at: number; count?: number; color?: string }                               // one-shot particle burst
+  | { kind: 'cue'; at: number; sound: NarrativeCue }
+  | { kind: 'choice'; at: number; prompt: string; options: NarrativeOption[] };                 // pauses the timeline until answered
+
+const resolveSoundscape = (reality: RealityItem) => reality.soundscape ?? ATMOSPHERES[reality.atmosphereType].soundscape;
+
 const realities: RealityItem[] = [
   { 
     id: 'dragon', 
@@ -226,7 +710,32 @@ const realities: RealityItem[] = [
     particleColor: '#FFD700', 
     particleShape: 'diamond',
     description: "A realm of fire and scales where ancient beasts guard treasures beyond imagination.",
-    atmosphereType: 'smoke'
+    atmosphereType: 'smoke',
+    narrative: [
+      { kind: 'text', at: 0, text: 'Ancient Era', style: 'whisper', duration: 3 },
+      { kind: 'camera', at: 0, duration: 6, zoom: 1.15, y: 4 },
+      { kind: 'text', at: 1.2, text: "Dragon's Den", style: 'title', duration: 4.5 },
+      { kind: 'cue', at: 5, sound: 'thud' },
+      { kind: 'burst', at: 5, count: 80, color: '#FF4E00' },
+      { kind: 'text', at: 6, text: 'Something vast breathes beneath the gold.', duration: 4 },
+      { kind: 'camera', at: 6, duration: 4, zoom: 1.35, x: -6, y: 8 },
+      { kind: 'choice', at: 10, prompt: 'The hoard stirs.', options: [
+        { label: 'Wake the beast' },
+        { label: 'Slip away', goto: 15 },
+      ] },
+      { kind: 'cue', at: 10.5, sound: 'whoosh' },
+      { kind: 'burst', at: 10.5, count: 140, color: '#FFD700' },
+      { kind: 'camera', at: 10.5, duration: 1.5, zoom: 1.6, y: 10 },
+      { kind: 'text', at: 11, text: 'An eye the size of a door opens.', duration: 3.5 },
+      { kind: 'camera', at: 15, duration: 5, zoom: 1, x: 0, y: 0 },
+      { kind: 'text', at: 15.5, text: "Dragon's Den", style: 'title' },
+      { kind: 'text', at: 16.5, text: "A realm of fire and scales where ancient beasts guard treasures beyond imagination." },
+    ],
+    links: [
+      { to: 'cosmic', label: 'Follow the smoke upward' },
+      { to: 'forest', label: 'Walk out past the ash line' },
+      { to: 'locked-1', label: 'Climb to the throne' },
+    ]
   },
   { 
     id: 'cosmic', 
@@ -237,7 +746,23 @@ const realities: RealityItem[] = [
     particleColor: '#50E3C2', 
     particleShape: 'star',
     description: "Drifting through the stardust of a thousand dead suns, silence is your only companion.",
-    atmosphereType: 'stars'
+    atmosphereType: 'stars',
+    atmosphereParams: { density: 1.5, speed: 0.7 },
+    narrative: [
+      { kind: 'camera', at: 0, duration: 12, zoom: 1.25, x: 3, y: -2 },
+      { kind: 'text', at: 0.5, text: 'Future Echo', style: 'whisper', duration: 3.5 },
+      { kind: 'text', at: 2, text: 'Cosmic Voyage', style: 'title', duration: 5 },
+      { kind: 'cue', at: 7, sound: 'unlock' },
+      { kind: 'burst', at: 7, count: 60, color: '#50E3C2' },
+      { kind: 'text', at: 7.5, text: 'A thousand suns went out here.', duration: 3.5 },
+      { kind: 'text', at: 11.5, text: 'Only their light is still travelling.', style: 'whisper', duration: 3.5 },
+      { kind: 'camera', at: 15, duration: 6, zoom: 1, x: 0, y: 0 },
+      { kind: 'text', at: 15.5, text: "Drifting through the stardust of a thousand dead suns, silence is your only companion." },
+    ],
+    links: [
+      { to: 'neon', label: 'Fall toward the city lights' },
+      { to: 'locked-2', label: 'Drift past the horizon' },
+    ]
   },
   { 
     id: 'neon', 
@@ -248,7 +773,11 @@ const realities: RealityItem[] = [
     particleColor: '#FF00FF', 
     particleShape: 'square',
     description: "Neon lights reflect on wet pavement as the pulse of the city synchronizes with your heartbeat.",
-    atmosphereType: 'glitch'
+    atmosphereType: 'glitch',
+    links: [
+      { to: 'forest', label: 'Unplug' },
+      { to: 'locked-3', label: 'Step into the reflection' },
+    ]
   },
   { 
     id: 'forest', 
@@ -259,7 +788,11 @@ const realities: RealityItem[] = [
     particleColor: '#10B981', 
     particleShape: 'circle',
     description: "Ancient trees guard secrets whispered by the wind, waiting for a soul quiet enough to listen.",
-    atmosphereType: 'light_shafts'
+    atmosphereType: 'light_shafts',
+    links: [
+      { to: 'dragon', label: 'Follow the scorched trail' },
+      { to: 'cosmic', label: 'Look up through the canopy' },
+    ]
   },
 ];
 
@@ -267,323 +800,3239 @@ const systemModes = [
   { index: 0, id: 'gateway', label: 'PORTAL', icon: 'auto_awesome_mosaic', color: '#50E3C2' },
   { index: 1, id: 'scanner', label: 'SCANNER', icon: 'remove_red_eye', color: '#FF4E00' },
   { index: 2, id: 'vault', label: 'VAULT', icon: 'memory', color: '#BD00FF' },
+  { index: 3, id: 'studio', label: 'STUDIO', icon: 'design_services', color: '#FFD700' },
+];
+
+type UnlockCondition =
+  | { type: 'visits'; realityId: string; count: number }      // warp into a reality N times
+  | { type: 'immersion'; seconds: number; realityId?: string } // time spent in the Immersive Player (one reality or any)
+  | { type: 'scans'; count: number };                          // finish N scanner captures
+
+interface LockedMemory {
+  reality: RealityItem;
+  condition: UnlockCondition;
+}
+
+// Sealed realities in the Vault; ids keep the `locked-` prefix
+const lockedMemories: LockedMemory[] = [
+  {
+    reality: {
+      ...realities[0],
+      id: 'locked-1',
+      title: 'Ember Throne',
+      subtitle: 'Sealed Memory',
+      themeColor: '#FF2A00',
+      particleColor: '#FF8A00',
+      description: 'The oldest dragon sleeps on a throne of cooled magma. Only those who keep returning are allowed to see it.',
+    },
+    condition: { type: 'visits', realityId: 'dragon', count: 3 }
+  },
+  {
+    reality: {
+      ...realities[1],
+      id: 'locked-2',
+      title: 'Event Horizon',
+      subtitle: 'Sealed Memory',
+      themeColor: '#3A00FF',
+      particleColor: '#FFFFFF',
+      description: 'Time stretches thin at the edge of the abyss. You have drifted long enough to stand on it.',
+      atmosphereType: 'void'
+    },
+    condition: { type: 'immersion', seconds: 120 }
+  },
+  {
+    reality: {
+      ...realities[2],
+      id: 'locked-3',
+      title: 'Mirror Grid',
+      subtitle: 'Sealed Memory',
+      themeColor: '#00F0FF',
+      particleColor: '#BD00FF',
+      description: 'A city rebuilt from what you brought back from the waking world.',
+    },
+    condition: { type: 'scans', count: 1 }
+  },
 ];
 
 // --- Systems (Logic) ---
 
-const useCorruption = (isActive: boolean) => {
-  const [corruption, setCorruption] = useState(0);
+const CORRUPTION_RATE = 0.01;  // per second spent idle on the portal
+const CORRUPTION_TAINT = 0.5;  // atmosphere and audio start to distort
+const CORRUPTION_BREACH = 1;   // a glitch variant of the reality tears loose
+
+type CorruptionStage = 'clean' | 'tainted' | 'breached';
+
+const corruptionStage = (corruption: number): CorruptionStage =>
+  corruption >= CORRUPTION_BREACH ? 'breached' : corruption >= CORRUPTION_TAINT ? 'tainted' : 'clean';
+
+// 0 below the taint threshold, rising to 1 at breach
+const corruptionDistortion = (corruption: number) => Math.max(0, Math.min(1, (corruption - CORRUPTION_TAINT) / (CORRUPTION_BREACH - CORRUPTION_TAINT)));
 
+// Corruption builds per reality while it sits idle on the portal, and is saved back to its memory
+const useCorruption = ({
+  realityId,
+  isActive,
+  stored,
+  ready,
+  onSettle,
+}: {
+  realityId: string;
+  isActive: boolean;
+  stored: number;
+  ready: boolean;
+  onSettle: (id: string, corruption: number) => void;
+}) => {
+  const [corruption, setCorruption] = useState(stored);
+  const valueRef = useRef(stored);
+
+  // Pick up the saved level when focus moves to another reality (or the store finishes loading)
   useEffect(() => {
-    if (!isActive) {
-      setCorruption(0);
-      return;
-    }
+    valueRef.current = stored;
+    setCorruption(stored);
+  }, [realityId, ready]);
+
+  useEffect(() => {
+    if (!isActive) return;
     const interval = setInterval(() => {
-      setCorruption(prev => {
-        if (prev >= 1) return 1;
-        return prev + 0.005;
-      });
+      const prev = valueRef.current;
+      const next = Math.min(CORRUPTION_BREACH, prev + CORRUPTION_RATE * 0.05);
+      if (next === prev) return;
+      valueRef.current = next;
+      setCorruption(next);
+      // Saved when it settles; crossing into a new stage is the only mid-run save
+      if (corruptionStage(next) !== corruptionStage(prev)) onSettle(realityId, next);
     }, 50);
-    return () => clearInterval(interval);
-  }, [isActive]);
+    const handlePageHide = () => onSettle(realityId, valueRef.current);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', handlePageHide);
+      onSettle(realityId, valueRef.current);
+    };
+  }, [isActive, realityId, onSettle]);
 
-  return corruption;
+  const purify = useCallback(() => {
+    valueRef.current = 0;
+    setCorruption(0);
+    onSettle(realityId, 0);
+  }, [realityId, onSettle]);
+
+  return { corruption, purify };
 };
 
-// --- Sub-Components ---
+// --- Alchemy (Capture -> Reality) ---
 
-const TakingOverParticles = ({ corruption, color, speed = 'normal', shape = 'circle' }: { corruption: number; color: string; speed?: 'fast' | 'normal' | 'slow'; shape?: 'circle' | 'square' | 'diamond' | 'star' }) => {
-  const particleCount = 40;
-  const particles = useMemo(() => Array.from({ length: particleCount }), []);
-  
-  const getDurationMultiplier = () => {
-      if (speed === 'fast') return 0.2;
-      if (speed === 'slow') return 3.0;
-      return 1.0;
-  };
-  const mult = getDurationMultiplier();
-
-  // Theme-specific shape styles
-  const getShapeStyle = (s: string) => {
-    switch(s) {
-        case 'square': return { borderRadius: '0' };
-        case 'diamond': return { borderRadius: '0', transform: 'rotate(45deg)' };
-        case 'star': return { clipPath: 'polygon(50% 0%, 61% 35%, 98% 35%, 68% 57%, 79% 91%, 50% 70%, 21% 91%, 32% 57%, 2% 35%, 39% 35%)', borderRadius: '0' };
-        default: return { borderRadius: '50%' };
-    }
-  };
+interface CaptureFeatures {
+  brightness: number;   // 0..1 mean luminance
+  saturation: number;   // 0..1 mean HSL saturation
+  edgeDensity: number;  // 0..1 share of pixels sitting on a strong luminance gradient
+  palette: string[];    // dominant colors, most prominent first
+}
 
-  return (
-    <div className="pointer-events-none absolute inset-0 z-20 overflow-hidden mix-blend-screen">
-      {particles.map((_, i) => {
-        const angle = Math.random() * Math.PI * 2;
-        const distance = 80 + Math.random() * 50;
-        const duration = (2 + Math.random() * 3) * mult;
-        const delay = Math.random() * 2;
-        const shapeStyle = getShapeStyle(shape);
-        const windX = Math.sin(Date.now() / 1000 + i) * 20;
-
-        return (
-          <div
-            key={i}
-            className="absolute left-1/2 top-1/2"
-            style={{
-              ...shapeStyle,
-              width: `${2 + Math.random() * 4}px`,
-              height: `${2 + Math.random() * 4}px`,
-              backgroundColor: color,
-              boxShadow: `0 0 10px ${color}`,
-              // @ts-ignore
-              '--tx': `${Math.cos(angle) * distance + windX}vw`,
-              '--ty': `${Math.sin(angle) * distance}vh`,
-              animation: `float-out ${duration}s cubic-bezier(0.25, 1, 0.5, 1) infinite`,
-              animationDelay: `${delay}s`,
-              opacity: 0,
-              transform: `translate(0, 0)`
-            }}
-          />
-        );
-      })}
-    </div>
-  );
+const ANALYSIS_SIZE = 64;
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Capture could not be decoded'));
+  img.src = src;
+});
+
+// Uploaded backgrounds are re-encoded so they stay small enough for IndexedDB and export files
+const readImageFile = async (file: File, maxEdge = 1600): Promise<string> => {
+  const source = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+  const img = await loadImage(source);
+  const scale = Math.min(1, maxEdge / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return source;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.9);
 };
 
-// Magical Portal Particles
-const PortalHoverParticles = ({ realityId, color, isHovered }: { realityId: string; color: string; isHovered: boolean }) => {
-  const particles = useMemo(() => Array.from({ length: 60 }), []); 
-  
-  return (
-    <div className={`pointer-events-none absolute inset-0 z-50 overflow-visible transition-opacity duration-1000 ${isHovered ? 'opacity-100' : 'opacity-40'}`}>
-      {particles.map((_, i) => {
-        let animationStyle = '';
-        let size = 0;
-        
-        // Leaking Atmosphere Logic
-        if (realityId === 'dragon') {
-            size = 2 + Math.random() * 3;
-            const tx = (Math.random() - 0.5) * 40; 
-            const ty = -60 - Math.random() * 80; // Vertical rise mostly
-            // @ts-ignore
-            animationStyle = `spark-rise ${4 + Math.random() * 3}s ease-out infinite`; 
-             // @ts-ignore
-             document.documentElement.style.setProperty(`--leak-tx-${i}`, `${tx}px`);
-             // @ts-ignore
-             document.documentElement.style.setProperty(`--leak-ty-${i}`, `${ty}px`);
-        } else if (realityId === 'cosmic') {
-            size = 1 + Math.random() * 2;
-            const tx = (Math.random() - 0.5) * 150; 
-            const ty = (Math.random() - 0.5) * 150;
-            // @ts-ignore
-            animationStyle = `atmosphere-leak ${8 + Math.random() * 4}s linear infinite`;
-             // @ts-ignore
-             document.documentElement.style.setProperty(`--leak-tx-${i}`, `${tx}px`);
-             // @ts-ignore
-             document.documentElement.style.setProperty(`--leak-ty-${i}`, `${ty}px`);
-        } else {
-             // Magical Portal Flow (default/general)
-             size = 2 + Math.random() * 4;
-             const angle = Math.random() * Math.PI * 2;
-             const dist = 50 + Math.random() * 100;
-             const tx = Math.cos(angle) * dist;
-             const ty = Math.sin(angle) * dist;
-             // @ts-ignore
-             document.documentElement.style.setProperty(`--magic-tx-${i}`, `${tx}px`);
-             // @ts-ignore
-             document.documentElement.style.setProperty(`--magic-ty-${i}`, `${ty}px`);
-             // @ts-ignore
-             animationStyle = `magical-flow ${2 + Math.random() * 2}s ease-out infinite`;
-        }
+const rgbToHsl = (r: number, g: number, b: number): [number, number, number] => {
+  r /= 255; g /= 255; b /= 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h = 0;
+  if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  return [h * 60, s, l];
+};
 
-        return (
-          <div
-            key={i}
-            className="absolute left-1/2 top-1/2 rounded-full mix-blend-screen blur-[2px]"
-            style={{
-              width: `${size}px`,
-              height: `${size}px`,
-              backgroundColor: realityId === 'dragon' ? (Math.random() > 0.7 ? '#FFD700' : color) : color,
-              boxShadow: `0 0 ${size * 3}px ${color}`,
-              // @ts-ignore
-              '--tx': realityId === 'dragon' || realityId === 'cosmic' ? `var(--leak-tx-${i})` : `var(--magic-tx-${i})`,
-              // @ts-ignore
-              '--ty': realityId === 'dragon' || realityId === 'cosmic' ? `var(--leak-ty-${i})` : `var(--magic-ty-${i})`,
-              animation: animationStyle,
-              animationDelay: `${Math.random()}s`,
-              opacity: 0
-            }}
-          />
-        );
-      })}
-    </div>
-  );
+const hslToHex = (h: number, s: number, l: number) => {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return '#' + [f(0), f(8), f(4)].map(v => Math.round(v * 255).toString(16).padStart(2, '0')).join('').toUpperCase();
 };
 
+const hexToRgb = (hex: string): [number, number, number] => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
 
-const DynamicAtmosphere = ({ atmosphereType, color }: { atmosphereType: string; color: string }) => {
-  const stars = useMemo(() => Array.from({ length: 50 }), []);
-  
-  if (atmosphereType === 'smoke') {
-    return (
-      <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
-        {[0, 1, 2].map((i) => (
-          <div
-            key={i}
-            className="absolute -bottom-1/2 left-[-20%] w-[140%] h-[100%] rounded-[100%] blur-[80px] opacity-[0.15] mix-blend-screen animate-smoke-drift"
-            style={{
-              background: `radial-gradient(circle at center, ${color}20 0%, transparent 70%)`,
-              animationDelay: `${i * -7}s`,
-              animationDuration: `${20 + i * 5}s`,
-              transformOrigin: 'center bottom'
-            }}
-          />
-        ))}
-      </div>
-    );
-  }
+const hueDistance = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
 
-  if (atmosphereType === 'stars') {
-    return (
-      <div className="absolute inset-0 z-0 pointer-events-none">
-        {stars.map((_, i) => (
-          <div
-            key={i}
-            className="absolute rounded-full bg-white animate-twinkle"
-            style={{
-              left: `${Math.random() * 100}%`,
-              top: `${Math.random() * 100}%`,
-              width: `${Math.random() * 2 + 1}px`,
-              height: `${Math.random() * 2 + 1}px`,
-              animationDelay: `${Math.random() * 5}s`,
-              opacity: Math.random() * 0.5 
-            }}
-          />
-        ))}
-      </div>
-    );
+const extractCaptureFeatures = async (dataUrl: string): Promise<CaptureFeatures> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = ANALYSIS_SIZE;
+  canvas.height = ANALYSIS_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas unavailable');
+  ctx.drawImage(img, 0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+  const { data } = ctx.getImageData(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+
+  const pixelCount = ANALYSIS_SIZE * ANALYSIS_SIZE;
+  const luminance = new Float32Array(pixelCount);
+  const buckets = new Map<number, { r: number; g: number; b: number; weight: number }>();
+  let brightness = 0;
+  let saturation = 0;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    const l = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+    const [, s] = rgbToHsl(r, g, b);
+    luminance[i] = l;
+    brightness += l;
+    saturation += s;
+
+    // 4 bits per channel; vivid mid-tones count for more than greys, blacks and blown highlights
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const weight = 0.2 + s * (1 - Math.abs(l - 0.5));
+    const bucket = buckets.get(key) || { r: 0, g: 0, b: 0, weight: 0 };
+    bucket.r += r * weight; bucket.g += g * weight; bucket.b += b * weight; bucket.weight += weight;
+    buckets.set(key, bucket);
   }
 
-  if (atmosphereType === 'glitch') {
-    return (
-      <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
-         <div className="absolute inset-0 bg-gradient-to-r from-purple-900/10 via-transparent to-cyan-900/10 animate-neon-pulse opacity-50" />
-         {[...Array(6)].map((_, i) => (
-            <div key={i} 
-                 className="absolute bg-cyan-400/20 w-full h-[1px] animate-glitch-bar mix-blend-overlay"
-                 style={{ 
-                   top: `${Math.random() * 100}%`,
-                   animationDelay: `${Math.random() * 3}s`,
-                   animationDuration: `${0.1 + Math.random() * 0.3}s`
-                 }}
-            />
-         ))}
-         <div className="absolute inset-0 bg-gradient-to-t from-purple-900/10 to-transparent animate-pulse-slow" />
-      </div>
-    );
+  // Edge density: central-difference gradient magnitude on the luminance grid
+  let edges = 0;
+  for (let y = 1; y < ANALYSIS_SIZE - 1; y++) {
+    for (let x = 1; x < ANALYSIS_SIZE - 1; x++) {
+      const i = y * ANALYSIS_SIZE + x;
+      const gx = luminance[i + 1] - luminance[i - 1];
+      const gy = luminance[i + ANALYSIS_SIZE] - luminance[i - ANALYSIS_SIZE];
+      if (Math.hypot(gx, gy) > 0.15) edges++;
+    }
   }
 
-  if (atmosphereType === 'light_shafts') {
-    return (
-        <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
-            {[...Array(3)].map((_, i) => (
-                <div key={i}
-                     className="absolute -top-20 w-[300px] h-[150%] bg-gradient-to-b from-emerald-100/5 to-transparent blur-[100px] transform rotate-[25deg] animate-light-shaft mix-blend-overlay"
-                     style={{
-                         left: `${10 + i * 35}%`,
-                         animationDelay: `${i * 1.5}s`,
-                         transformOrigin: 'top center'
-                     }}
-                />
-            ))}
-             {[...Array(12)].map((_, i) => (
-                <div key={i}
-                     className="absolute w-1 h-1 bg-yellow-200 rounded-full blur-[1px] animate-firefly-burst"
-                     style={{
-                         left: `${Math.random() * 100}%`,
-                         top: `${Math.random() * 100}%`,
-                         animationDelay: `${Math.random() * 8}s`,
-                         animationDuration: `${6 + Math.random() * 6}s`
-                     }}
-                />
-            ))}
-        </div>
-    )
+  const palette: string[] = [];
+  const ranked = [...buckets.values()].sort((a, b) => b.weight - a.weight);
+  for (const bucket of ranked) {
+    const rgb: [number, number, number] = [bucket.r / bucket.weight, bucket.g / bucket.weight, bucket.b / bucket.weight];
+    const distinct = palette.every(hex => {
+      const [pr, pg, pb] = hexToRgb(hex);
+      return Math.hypot(rgb[0] - pr, rgb[1] - pg, rgb[2] - pb) > 60;
+    });
+    if (!distinct) continue;
+    palette.push('#' + rgb.map(v => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase());
+    if (palette.length === 4) break;
   }
 
-  return (
-      <div className="absolute inset-0 z-0 pointer-events-none opacity-10">
-         <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-black" />
-         <div className="absolute inset-0 animate-pulse-slow" style={{ background: `radial-gradient(circle at center, ${color}10 0%, transparent 50%)` }} />
-      </div>
-  );
+  return {
+    brightness: brightness / pixelCount,
+    saturation: saturation / pixelCount,
+    edgeDensity: edges / ((ANALYSIS_SIZE - 2) * (ANALYSIS_SIZE - 2)),
+    palette
+  };
 };
 
-const ScannerDimension = ({ active, isScanning }: { active: boolean; isScanning: boolean }) => {
-  return (
-    <div className={`fixed inset-0 z-40 flex flex-col bg-black transition-all duration-500 ease-in-out ${active ? 'opacity-100 scale-100 blur-0' : 'opacity-0 scale-95 blur-md pointer-events-none'}`}>
-       {/* Camera Feed - Raw World */}
-       <div className="absolute inset-0 bg-[url('https://images.unsplash.com/photo-1518544806308-c8f325cc77cc?q=80&w=1000&auto=format&fit=crop')] bg-cover bg-center" 
-            style={{ filter: 'contrast(1.1) saturate(1.1)' }}></div>
-            
-       {/* Minimalist Viewfinder UI */}
-       <div className="absolute inset-0 z-10">
-          {/* Center Reticle - Pure Focus */}
-          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none">
-             <div className={`relative w-24 h-24 transition-all duration-300 ${isScanning ? 'scale-90' : 'scale-100'}`}>
-                {/* Central Focus Ring */}
-                <div className={`absolute inset-0 rounded-full border border-white/40 ${isScanning ? 'border-red-400 animate-pulse border-2' : 'border-white/20'}`}></div>
-                
-                {/* Center Dot */}
-                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-1.5 h-1.5 bg-white/80 rounded-full shadow-[0_0_5px_white]"></div>
-             </div>
-          </div>
-       </div>
-    </div>
-  );
-}
+// Captures only ever land in the original five atmospheres
+type CaptureAtmosphere = Extract<AtmosphereType, 'smoke' | 'stars' | 'glitch' | 'light_shafts' | 'void'>;
 
-const VaultDimension = ({ active, onSelectReality }: { active: boolean; onSelectReality: (id: string) => void }) => {
-  const nervous = useNervousSystem();
-  const [headerOpacity, setHeaderOpacity] = useState(1);
-  const scrollRef = useRef<HTMLDivElement>(null);
-  
-  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
-    const scrollTop = e.currentTarget.scrollTop;
-    const newOpacity = Math.max(0, 1 - scrollTop / 200);
-    setHeaderOpacity(newOpacity);
-  };
-  
-  const vaultItems = useMemo(() => {
-      const baseItems = [
-        ...realities,
-        ...realities.map(r => ({ ...r, id: `${r.id}-dup` })), 
-        ...realities.map(r => ({ ...r, id: `${r.id}-dup2` })),
-        ...realities.map(r => ({ ...r, id: `${r.id}-dup3` })),
-        { ...realities[0], id: 'locked-1', title: 'Locked Memory', subtitle: 'Encrypted' },
-        { ...realities[1], id: 'locked-2', title: 'Locked Memory', subtitle: 'Encrypted' },
-        { ...realities[2], id: 'locked-3', title: 'Locked Memory', subtitle: 'Encrypted' }
-      ];
-      
-      // DNA Double Helix Layout
-      return baseItems.map((item, i) => {
-        const strand = i % 2 === 0 ? 'A' : 'B'; // Alternate strands
-        const verticalSpacing = 110; // Spacing
-        const amplitude = 90; // Width of the helix
-        const frequency = 0.4; // Speed of twist
-        
-        // Phase shift: Strand B is 180 degrees (PI) offset from Strand A
-        const phaseOffset = strand === 'A' ? 0 : Math.PI;
-        const angle = (i * frequency) + phaseOffset;
-        
-        // X Position: Sine wave
-        const xOffset = Math.sin(angle) * amplitude;
-        
-        // Z Depth (Scale/Opacity/Index): Cosine wave (90 deg offset from Sine)
-        // Items 'in front' are larger/brighter
-        const depth = Math.cos(angle);
-        const zScale = 0.6 + ((depth + 1) / 2) * 0.5; // Scale range 0.6 to 1.1
-        const zIndex = Math.floor(zScale * 100);
-        const opacity = 0.4 + ((depth + 1) / 2) * 0.6; // Opacity range 0.4 to 1.0
+const pickAtmosphere = ({ brightness, saturation, edgeDensity, palette }: CaptureFeatures): CaptureAtmosphere => {
+  const [hue] = rgbToHsl(...hexToRgb(palette[0] || '#000000'));
+  if (edgeDensity > 0.25 && saturation > 0.3) return 'glitch';
+  if (brightness < 0.25) return 'stars';
+  if (brightness > 0.55 && saturation < 0.35) return 'light_shafts';
+  if (saturation > 0.3 && (hue < 50 || hue > 330)) return 'smoke';
+  return 'void';
+};
+
+const pickParticleShape = ({ brightness, edgeDensity }: CaptureFeatures): ParticleShape => {
+  if (edgeDensity > 0.25) return 'square';
+  if (brightness < 0.25) return 'star';
+  if (edgeDensity > 0.12) return 'diamond';
+  return 'circle';
+};
+
+const CAPTURE_LORE: Record<CaptureAtmosphere, { titles: string[]; description: string }> = {
+  smoke: { titles: ['Ember Fragment', 'Ashen Echo'], description: 'A smouldering slice of the waking world, still warm from the moment it was taken.' },
+  stars: { titles: ['Night Shard', 'Dark Echo'], description: 'Captured in the dark, where the faintest lights become constellations.' },
+  glitch: { titles: ['Static Memory', 'Signal Ghost'], description: 'Too many edges, too much color. The memory hums like a broken screen.' },
+  light_shafts: { titles: ['Bright Remnant', 'Sunlit Echo'], description: 'A pale, luminous moment. Light pours through it like morning through leaves.' },
+  void: { titles: ['Quiet Fragment', 'Hollow Echo'], description: 'A still and quiet place, folded away for when you need it.' },
+};
+
+// Turn a scanner frame into a playable reality: colors from the palette, atmosphere and particles from image features
+const realityFromCapture = async (capture: ScanCapture): Promise<RealityItem> => {
+  const features = await extractCaptureFeatures(capture.dataUrl);
+  const atmosphereType = pickAtmosphere(features);
+  const lore = CAPTURE_LORE[atmosphereType];
+
+  const [themeHue, themeSat] = rgbToHsl(...hexToRgb(features.palette[0] || '#50E3C2'));
+  const accent = features.palette.slice(1).find(hex => hueDistance(rgbToHsl(...hexToRgb(hex))[0], themeHue) > 30);
+  const particleHue = accent ? rgbToHsl(...hexToRgb(accent))[0] : (themeHue + 40) % 360;
+
+  return {
+    id: capture.id,
+    title: lore.titles[capture.capturedAt % lore.titles.length],
+    subtitle: `Scanned ${new Date(capture.capturedAt).toLocaleDateString()}`,
+    bgImage: capture.dataUrl,
+    // Keep colors vivid enough to glow against the void
+    themeColor: hslToHex(themeHue, Math.max(0.6, themeSat), 0.5),
+    particleColor: hslToHex(particleHue, 0.8, 0.65),
+    particleShape: pickParticleShape(features),
+    description: lore.description,
+    atmosphereType
+  };
+};
+
+// A breached reality spawns a corrupted twin: inverted colors, hard edges, glitch atmosphere
+const createGlitchVariant = (reality: RealityItem): RealityItem => {
+  const [themeHue] = rgbToHsl(...hexToRgb(reality.themeColor));
+  return {
+    ...reality,
+    id: `${reality.id}-glitch`,
+    title: `${reality.title} // Corrupted`,
+    subtitle: 'Glitch Variant',
+    themeColor: hslToHex((themeHue + 180) % 360, 1, 0.5),
+    particleColor: '#FF00FF',
+    particleShape: 'square',
+    atmosphereType: 'glitch',
+    soundscape: undefined,
+    description: `${reality.description} Something else lives here now.`,
+  };
+};
+
+const isGlitchVariant = (id: string) => id.endsWith('-glitch');
+
+// --- Theme (Palette) ---
+
+// The chrome takes its colors from the selected reality. index.html registers these as
+// animatable <color> properties and maps them to Tailwind's theme-* colors.
+interface ThemePalette {
+  bg: string;          // near-black tint of the reality's hue
+  surface: string;     // panels and overlays sitting on bg
+  glow: string;        // the reality's themeColor
+  accent: string;      // the reality's particleColor
+  accentSafe: string;  // accent lightened until it reads as text on bg
+  text: string;
+  textMuted: string;
+  onAccent: string;    // black or white, whichever reads on accent
+}
+
+// WCAG 2 relative luminance / contrast ratio
+const relativeLuminance = (hex: string) => {
+  const [r, g, b] = hexToRgb(hex).map(v => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const contrastRatio = (a: string, b: string) => {
+  const [hi, lo] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+const THEME_MIN_CONTRAST = 4.5;
+
+// Walks lightness up (keeping hue) until the color clears the contrast floor against the background
+const ensureContrast = (hex: string, background: string) => {
+  const [h, s, l] = rgbToHsl(...hexToRgb(hex));
+  for (let lightness = l; lightness <= 1; lightness += 0.05) {
+    const candidate = hslToHex(h, s, Math.min(1, lightness));
+    if (contrastRatio(candidate, background) >= THEME_MIN_CONTRAST) return candidate;
+  }
+  return '#FFFFFF';
+};
+
+const deriveTheme = (reality: RealityItem): ThemePalette => {
+  const glow = reality.themeColor;
+  const accent = reality.particleColor;
+  const [h, s] = rgbToHsl(...hexToRgb(glow));
+  const bg = hslToHex(h, Math.min(s, 0.8), 0.05);
+  return {
+    bg,
+    surface: hslToHex(h, Math.min(s, 0.5), 0.1),
+    glow,
+    accent,
+    accentSafe: ensureContrast(accent, bg),
+    text: hslToHex(h, 0.4, 0.96),
+    textMuted: ensureContrast(hslToHex(h, 0.15, 0.6), bg),
+    onAccent: contrastRatio('#000000', accent) >= contrastRatio('#FFFFFF', accent) ? '#000000' : '#FFFFFF'
+  };
+};
+
+const THEME_VARIABLES: Record<keyof ThemePalette, string> = {
+  bg: '--theme-bg',
+  surface: '--theme-surface',
+  glow: '--theme-glow',
+  accent: '--theme-accent',
+  accentSafe: '--theme-accent-safe',
+  text: '--theme-text',
+  textMuted: '--theme-text-muted',
+  onAccent: '--theme-on-accent'
+};
+
+const applyTheme = (palette: ThemePalette) => {
+  const root = document.documentElement;
+  (Object.keys(THEME_VARIABLES) as (keyof ThemePalette)[]).forEach(key => root.style.setProperty(THEME_VARIABLES[key], palette[key]));
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', palette.bg);
+};
+
+const useRealityTheme = (reality: RealityItem) => {
+  const palette = useMemo(() => deriveTheme(reality), [reality]);
+  useEffect(() => applyTheme(palette), [palette]);
+  return palette;
+};
+
+// --- Memory Store (IndexedDB) ---
+
+type MemoryOrigin = 'builtin' | 'captured' | 'imported' | 'unlocked' | 'authored' | 'corrupted';
+
+interface MemoryRecord {
+  id: string;
+  reality: RealityItem;
+  origin: MemoryOrigin;
+  createdAt: number;
+  lastVisitedAt: number | null;
+  visitCount: number;
+  dwellMs?: number;     // total time spent in the Immersive Player
+  corruption?: number;  // 0..1, see useCorruption
+}
+
+const MEMORY_DB_NAME = 'jeeni-memory';
+const MEMORY_DB_VERSION = 1;
+const MEMORY_STORE = 'memories';
+
+let memoryDbPromise: Promise<IDBDatabase> | null = null;
+
+const openMemoryDb = () => {
+  if (!memoryDbPromise) {
+    memoryDbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!window.indexedDB) {
+        reject(new Error('IndexedDB unavailable'));
+        return;
+      }
+      const request = indexedDB.open(MEMORY_DB_NAME, MEMORY_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MEMORY_STORE)) {
+          const store = db.createObjectStore(MEMORY_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return memoryDbPromise;
+};
+
+const runMemoryRequest = <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) =>
+  openMemoryDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(MEMORY_STORE, mode).objectStore(MEMORY_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+const memoryStore = {
+  getAll: () => runMemoryRequest<MemoryRecord[]>('readonly', store => store.getAll()),
+  put: (record: MemoryRecord) => runMemoryRequest('readwrite', store => store.put(record)),
+  remove: (id: string) => runMemoryRequest('readwrite', store => store.delete(id)),
+};
+
+const createMemoryRecord = (reality: RealityItem, origin: MemoryOrigin): MemoryRecord => ({
+  id: reality.id,
+  reality,
+  origin,
+  createdAt: Date.now(),
+  lastVisitedAt: null,
+  visitCount: 0
+});
+
+const persistMemory = (record: MemoryRecord) => {
+  memoryStore.put(record).catch(err => console.log(err));
+};
+
+// Built-ins first in their authored order, then everything the user added, oldest first
+const sortMemories = (records: MemoryRecord[]) => {
+  const builtinOrder = new Map(realities.map((r, i) => [r.id, i]));
+  return [...records].sort((a, b) => {
+    const ai = builtinOrder.get(a.id) ?? Infinity;
+    const bi = builtinOrder.get(b.id) ?? Infinity;
+    if (ai !== bi) return ai - bi;
+    return a.createdAt - b.createdAt;
+  });
+};
+
+const useMemoryVault = () => {
+  const [memories, setMemories] = useState<MemoryRecord[]>(() => realities.map(r => createMemoryRecord(r, 'builtin')));
+  const [ready, setReady] = useState(false);
+  const memoriesRef = useRef(memories);
+  memoriesRef.current = memories;
+  // Ids added this session: a capture or import made before the stored memories finish loading must survive the load
+  const addedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    let cancelled = false;
+    memoryStore.getAll()
+      .then(stored => {
+        const byId = new Map(stored.map(record => [record.id, record]));
+        // Built-in definitions always come from code; only their history is kept
+        realities.forEach(reality => {
+          const existing = byId.get(reality.id);
+          const record = existing ? { ...existing, reality, origin: 'builtin' as const } : createMemoryRecord(reality, 'builtin');
+          byId.set(reality.id, record);
+          persistMemory(record);
+        });
+        if (cancelled) return;
+        setMemories(prev => {
+          prev.forEach(record => { if (addedRef.current.has(record.id)) byId.set(record.id, record); });
+          return sortMemories([...byId.values()]);
+        });
+      })
+      .catch(err => console.log(err))
+      .finally(() => {
+        if (!cancelled) setReady(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const addMemory = useCallback((reality: RealityItem, origin: MemoryOrigin) => {
+    // Saving over an existing memory (a re-saved draft, a re-import) replaces its definition but keeps its
+    // history and origin: unlock rules count captures, so a re-imported capture must stay 'captured'
+    const existing = memoriesRef.current.find(m => m.id === reality.id);
+    const record = existing ? { ...existing, reality } : createMemoryRecord(reality, origin);
+    addedRef.current.add(record.id);
+    setMemories(prev => sortMemories([...prev.filter(m => m.id !== record.id), record]));
+    persistMemory(record);
+    return record;
+  }, []);
+
+  const recordVisit = useCallback((id: string) => {
+    const existing = memoriesRef.current.find(m => m.id === id);
+    if (!existing) return;
+    const record = { ...existing, visitCount: existing.visitCount + 1, lastVisitedAt: Date.now() };
+    setMemories(prev => prev.map(m => m.id === id ? record : m));
+    persistMemory(record);
+  }, []);
+
+  const recordDwell = useCallback((id: string, ms: number) => {
+    const existing = memoriesRef.current.find(m => m.id === id);
+    if (!existing || ms <= 0) return;
+    const record = { ...existing, dwellMs: (existing.dwellMs ?? 0) + ms };
+    setMemories(prev => prev.map(m => m.id === id ? record : m));
+    persistMemory(record);
+  }, []);
+
+  const setCorruption = useCallback((id: string, corruption: number) => {
+    const existing = memoriesRef.current.find(m => m.id === id);
+    if (!existing || Math.abs((existing.corruption ?? 0) - corruption) < 0.001) return;
+    const record = { ...existing, corruption };
+    setMemories(prev => prev.map(m => m.id === id ? record : m));
+    persistMemory(record);
+  }, []);
+
+  return { memories, ready, addMemory, recordVisit, recordDwell, setCorruption };
+};
+
+// --- Unlock Rules ---
+
+interface UnlockProgress {
+  met: boolean;
+  progress: number; // 0..1
+  hint: string;
+}
+
+const evaluateUnlock = (condition: UnlockCondition, memories: MemoryRecord[]): UnlockProgress => {
+  const measure = (current: number, target: number, hint: string) => ({
+    met: current >= target,
+    progress: Math.min(1, current / target),
+    hint
+  });
+
+  switch (condition.type) {
+    case 'visits': {
+      const memory = memories.find(m => m.id === condition.realityId);
+      const visits = memory?.visitCount ?? 0;
+      const name = memory?.reality.title ?? condition.realityId;
+      return measure(visits, condition.count, `Visit ${name} ${Math.min(visits, condition.count)}/${condition.count}`);
+    }
+    case 'immersion': {
+      const pool = condition.realityId ? memories.filter(m => m.id === condition.realityId) : memories;
+      const seconds = Math.floor(pool.reduce((sum, m) => sum + (m.dwellMs ?? 0), 0) / 1000);
+      const where = condition.realityId ? pool[0]?.reality.title ?? condition.realityId : 'realities';
+      return measure(seconds, condition.seconds, `Drift in ${where} ${Math.min(seconds, condition.seconds)}/${condition.seconds}s`);
+    }
+    case 'scans': {
+      const scans = memories.filter(m => m.origin === 'captured').length;
+      return measure(scans, condition.count, `Complete a scan ${Math.min(scans, condition.count)}/${condition.count}`);
+    }
+  }
+};
+
+// --- Reality Graph (Links) ---
+
+// Links whose target is not in `known` (defaults to the items themselves)
+const findDanglingLinks = (items: RealityItem[], known = new Set(items.map(r => r.id))) =>
+  items.flatMap(reality => (reality.links ?? [])
+    .filter(link => !known.has(link.to))
+    .map(link => `${reality.title} (${reality.id}) links to unknown reality "${link.to}"`));
+
+// Paths out of a reality that can be taken right now
+const resolveLinks = (reality: RealityItem, available: RealityItem[]) =>
+  (reality.links ?? []).flatMap(link => {
+    const target = available.find(r => r.id === link.to);
+    return target && target.id !== reality.id ? [{ link, target }] : [];
+  });
+
+type RealityPath = ReturnType<typeof resolveLinks>[number];
+
+// --- Reality Files (Import / Export) ---
+
+// One reality or a pack of them. Assets travel inline as data URLs or as plain https URLs.
+//   { "format": "jeeni-reality", "version": 1, "reality": { ... } }
+//   { "format": "jeeni-reality", "version": 1, "realities": [ { ... }, ... ] }
+const REALITY_FILE_FORMAT = 'jeeni-reality';
+const REALITY_FILE_VERSION = 1;
+const REALITY_FILE_EXTENSION = '.jeeni.json';
+
+interface RealityFile {
+  format: typeof REALITY_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  reality?: RealityItem;
+  realities?: RealityItem[];
+}
+
+class RealityFileError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues[0] ?? 'Invalid reality file');
+    this.name = 'RealityFileError';
+    this.issues = issues;
+  }
+}
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+// Short #abc colors are accepted in files but stored as #aabbcc, since alpha suffixes and color inputs need 6 digits
+const expandHex = (hex: string) => hex.length === 4 ? `#${[...hex.slice(1)].map(c => c + c).join('')}` : hex;
+const REALITY_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+const TEXT_FIELDS = ['title', 'subtitle', 'description'] as const;
+
+// Ranges keep a hand-written file from throwing inside the audio graph or flooding it with grains
+const SOUND_LAYER_RANGES: Record<string, [number, number]> = {
+  frequency: [0, 20000],
+  gain: [0, 2],
+  spread: [0, 4],
+  density: [0, 40],       // grains per second
+  grainLength: [0, 2],    // seconds
+  detune: [-1200, 1200],  // cents
+  lfoRate: [0, 20],
+  lfoDepth: [0, 1],
+  q: [0, 100],
+  sweepRate: [0, 20],
+};
+const SOUND_LAYER_NUMBERS: Record<SoundLayer['kind'], { required: string[]; optional: string[] }> = {
+  tone: { required: ['frequency', 'gain'], optional: ['detune', 'lfoRate', 'lfoDepth'] },
+  noise: { required: ['gain'], optional: ['frequency', 'q', 'sweepRate'] },
+  grains: { required: ['frequency', 'gain', 'spread', 'density', 'grainLength'], optional: [] },
+};
+const NOISE_COLORS: NoiseColor[] = ['white', 'pink', 'brown'];
+const OSCILLATOR_WAVES: OscillatorType[] = ['sine', 'square', 'sawtooth', 'triangle'];
+const FILTER_TYPES: BiquadFilterType[] = ['lowpass', 'highpass', 'bandpass', 'lowshelf', 'highshelf', 'peaking', 'notch', 'allpass'];
+
+const validateSoundscape = (value: unknown, path: string, issues: string[]) => {
+  const layers = (value as Soundscape | null)?.layers;
+  if (!Array.isArray(layers) || layers.length === 0) {
+    issues.push(`${path}.layers must be a non-empty array`);
+    return;
+  }
+  layers.forEach((layer: Record<string, unknown>, i) => {
+    const at = `${path}.layers[${i}]`;
+    const fields = SOUND_LAYER_NUMBERS[layer?.kind as SoundLayer['kind']];
+    if (!fields) {
+      issues.push(`${at}.kind must be one of ${Object.keys(SOUND_LAYER_NUMBERS).join(', ')} (got ${JSON.stringify(layer?.kind)})`);
+      return;
+    }
+    const checkNumber = (field: string) => {
+      const [min, max] = SOUND_LAYER_RANGES[field];
+      const n = layer[field];
+      if (typeof n !== 'number' || !isFinite(n) || n < min || n > max) {
+        issues.push(`${at}.${field} must be a number from ${min} to ${max} (got ${JSON.stringify(n)})`);
+      }
+    };
+    fields.required.forEach(checkNumber);
+    fields.optional.forEach(field => { if (layer[field] !== undefined) checkNumber(field); });
+    if (layer.kind === 'noise' && !NOISE_COLORS.includes(layer.color as NoiseColor)) {
+      issues.push(`${at}.color must be one of ${NOISE_COLORS.join(', ')} (got ${JSON.stringify(layer.color)})`);
+    }
+    if (layer.kind === 'noise' && layer.filter !== undefined && !FILTER_TYPES.includes(layer.filter as BiquadFilterType)) {
+      issues.push(`${at}.filter must be one of ${FILTER_TYPES.join(', ')} (got ${JSON.stringify(layer.filter)})`);
+    }
+    if (layer.kind !== 'noise' && layer.wave !== undefined && !OSCILLATOR_WAVES.includes(layer.wave as OscillatorType)) {
+      issues.push(`${at}.wave must be one of ${OSCILLATOR_WAVES.join(', ')} (got ${JSON.stringify(layer.wave)})`);
+    }
+  });
+};
+
+const NARRATIVE_CUES: NarrativeCue[] = ['click', 'thud', 'whoosh', 'unlock'];
+const NARRATIVE_TEXT_STYLES: NarrativeTextStyle[] = ['title', 'line', 'whisper'];
+
+const isTime = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0;
+
+const validateNarrative = (value: unknown, path: string, issues: string[]) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array of beats`);
+    return;
+  }
+  value.forEach((beat: Record<string, unknown>, i) => {
+    const at = `${path}[${i}]`;
+    if (!isTime(beat?.at)) issues.push(`${at}.at must be a non-negative number of seconds`);
+    switch (beat?.kind) {
+      case 'text':
+        if (typeof beat.text !== 'string' || !beat.text.trim()) issues.push(`${at}.text must be a non-empty string`);
+        if (beat.style !== undefined && !NARRATIVE_TEXT_STYLES.includes(beat.style as NarrativeTextStyle)) {
+          issues.push(`${at}.style must be one of ${NARRATIVE_TEXT_STYLES.join(', ')} (got ${JSON.stringify(beat.style)})`);
+        }
+        if (beat.duration !== undefined && !isTime(beat.duration)) issues.push(`${at}.duration must be a non-negative number`);
+        break;
+      case 'camera':
+        if (!isTime(beat.duration)) issues.push(`${at}.duration must be a non-negative number`);
+        if (typeof beat.zoom !== 'number' || beat.zoom < 1 || beat.zoom > 3) issues.push(`${at}.zoom must be between 1 and 3`);
+        (['x', 'y'] as const).forEach(axis => {
+          if (beat[axis] !== undefined && (typeof beat[axis] !== 'number' || Math.abs(beat[axis] as number) > 50)) {
+            issues.push(`${at}.${axis} must be between -50 and 50`);
+          }
+        });
+        break;
+      case 'burst':
+        if (beat.count !== undefined && (typeof beat.count !== 'number' || beat.count < 1 || beat.count > 300)) issues.push(`${at}.count must be between 1 and 300`);
+        if (beat.color !== undefined && (typeof beat.color !== 'string' || !HEX_COLOR.test(beat.color))) issues.push(`${at}.color must be a hex color`);
+        break;
+      case 'cue':
+        if (!NARRATIVE_CUES.includes(beat.sound as NarrativeCue)) {
+          issues.push(`${at}.sound must be one of ${NARRATIVE_CUES.join(', ')} (got ${JSON.stringify(beat.sound)})`);
+        }
+        break;
+      case 'choice':
+        if (typeof beat.prompt !== 'string' || !beat.prompt.trim()) issues.push(`${at}.prompt must be a non-empty string`);
+        if (!Array.isArray(beat.options) || beat.options.length === 0) {
+          issues.push(`${at}.options must be a non-empty array`);
+          break;
+        }
+        beat.options.forEach((option: Record<string, unknown>, j) => {
+          if (typeof option?.label !== 'string' || !option.label.trim()) issues.push(`${at}.options[${j}].label must be a non-empty string`);
+          if (option?.goto !== undefined && !isTime(option.goto)) issues.push(`${at}.options[${j}].goto must be a non-negative number of seconds`);
+        });
+        break;
+      default:
+        issues.push(`${at}.kind must be one of text, camera, burst, cue, choice (got ${JSON.stringify(beat?.kind)})`);
+    }
+  });
+};
+
+// Shape only; whether targets exist is checked against the whole vault on import (findDanglingLinks)
+const validateLinks = (value: unknown, ownId: unknown, path: string, issues: string[]) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array`);
+    return;
+  }
+  value.forEach((link: Record<string, unknown>, i) => {
+    const at = `${path}[${i}]`;
+    if (typeof link?.to !== 'string' || !REALITY_ID.test(link.to)) issues.push(`${at}.to must be a reality id (got ${JSON.stringify(link?.to)})`);
+    else if (link.to === ownId) issues.push(`${at}.to must not point back at the same reality`);
+    if (typeof link?.label !== 'string' || !link.label.trim()) issues.push(`${at}.label must be a non-empty string`);
+  });
+};
+
+const validateAtmosphereParams = (value: unknown, path: string, issues: string[]) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  const params = value as Record<string, unknown>;
+  (['density', 'speed'] as const).forEach(field => {
+    if (params[field] !== undefined && (typeof params[field] !== 'number' || !((params[field] as number) > 0) || (params[field] as number) > 4)) {
+      issues.push(`${path}.${field} must be a number above 0 and at most 4 (got ${JSON.stringify(params[field])})`);
+    }
+  });
+  if (params.color !== undefined && !ATMOSPHERE_COLOR_SOURCES.includes(params.color as AtmosphereColorSource)) {
+    issues.push(`${path}.color must be one of ${ATMOSPHERE_COLOR_SOURCES.join(', ')} (got ${JSON.stringify(params.color)})`);
+  }
+};
+
+const validateReality = (value: unknown, path: string, issues: string[]): RealityItem | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  const before = issues.length;
+
+  if (typeof raw.id !== 'string' || !REALITY_ID.test(raw.id)) {
+    issues.push(`${path}.id must be letters, digits, "-" or "_" (got ${JSON.stringify(raw.id)})`);
+  }
+  TEXT_FIELDS.forEach(field => {
+    if (typeof raw[field] !== 'string' || !(raw[field] as string).trim()) {
+      issues.push(`${path}.${field} must be a non-empty string`);
+    }
+  });
+  if (typeof raw.bgImage !== 'string' || !/^(https:\/\/|data:image\/)/.test(raw.bgImage)) {
+    issues.push(`${path}.bgImage must be an https:// URL or a data:image/ URL`);
+  }
+  (['themeColor', 'particleColor'] as const).forEach(field => {
+    if (typeof raw[field] !== 'string' || !HEX_COLOR.test(raw[field] as string)) {
+      issues.push(`${path}.${field} must be a hex color like #FF4E00 (got ${JSON.stringify(raw[field])})`);
+    }
+  });
+  if (!PARTICLE_SHAPES.includes(raw.particleShape as ParticleShape)) {
+    issues.push(`${path}.particleShape must be one of ${PARTICLE_SHAPES.join(', ')} (got ${JSON.stringify(raw.particleShape)})`);
+  }
+  if (!ATMOSPHERE_TYPES.includes(raw.atmosphereType as AtmosphereType)) {
+    issues.push(`${path}.atmosphereType must be one of ${ATMOSPHERE_TYPES.join(', ')} (got ${JSON.stringify(raw.atmosphereType)})`);
+  }
+  if (raw.atmosphereParams !== undefined) validateAtmosphereParams(raw.atmosphereParams, `${path}.atmosphereParams`, issues);
+  if (raw.soundscape !== undefined) validateSoundscape(raw.soundscape, `${path}.soundscape`, issues);
+  if (raw.narrative !== undefined) validateNarrative(raw.narrative, `${path}.narrative`, issues);
+  if (raw.links !== undefined) validateLinks(raw.links, raw.id, `${path}.links`, issues);
+  if (issues.length > before) return null;
+
+  return {
+    id: raw.id as string,
+    title: (raw.title as string).trim(),
+    subtitle: (raw.subtitle as string).trim(),
+    bgImage: raw.bgImage as string,
+    themeColor: expandHex(raw.themeColor as string),
+    particleColor: expandHex(raw.particleColor as string),
+    particleShape: raw.particleShape as ParticleShape,
+    description: (raw.description as string).trim(),
+    atmosphereType: raw.atmosphereType as AtmosphereType,
+    ...(raw.atmosphereParams !== undefined ? { atmosphereParams: raw.atmosphereParams as Partial<AtmosphereParams> } : {}),
+    ...(raw.soundscape !== undefined ? { soundscape: raw.soundscape as Soundscape } : {}),
+    ...(raw.narrative !== undefined ? { narrative: raw.narrative as NarrativeBeat[] } : {}),
+    ...(raw.links !== undefined ? { links: raw.links as RealityLink[] } : {})
+  };
+};
+
+const parseRealityFile = (text: string): RealityItem[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RealityFileError(['File is not valid JSON']);
+  }
+  if (!data || typeof data !== 'object') throw new RealityFileError(['File must contain a JSON object']);
+
+  const file = data as Partial<RealityFile>;
+  if (file.format !== REALITY_FILE_FORMAT) {
+    throw new RealityFileError([`Unknown format ${JSON.stringify(file.format)}; expected "${REALITY_FILE_FORMAT}"`]);
+  }
+  if (typeof file.version !== 'number' || file.version < 1) {
+    throw new RealityFileError(['version must be a positive number']);
+  }
+  if (file.version > REALITY_FILE_VERSION) {
+    throw new RealityFileError([`File version ${file.version} is newer than supported (${REALITY_FILE_VERSION})`]);
+  }
+
+  const issues: string[] = [];
+  let entries: { value: unknown; path: string }[] = [];
+  if (Array.isArray(file.realities)) {
+    entries = file.realities.map((value, i) => ({ value, path: `realities[${i}]` }));
+  } else if (file.reality !== undefined) {
+    entries = [{ value: file.reality, path: 'reality' }];
+  } else {
+    issues.push('File must contain a "reality" object or a "realities" array');
+  }
+  if (Array.isArray(file.realities) && file.realities.length === 0) issues.push('realities must not be empty');
+
+  const parsed = entries.map(({ value, path }) => validateReality(value, path, issues));
+  const seen = new Set<string>();
+  parsed.forEach((reality, i) => {
+    if (!reality) return;
+    if (seen.has(reality.id)) issues.push(`${entries[i].path}.id "${reality.id}" appears more than once`);
+    seen.add(reality.id);
+  });
+
+  if (issues.length > 0) throw new RealityFileError(issues);
+  return parsed as RealityItem[];
+};
+
+const serializeRealityFile = (items: RealityItem[]) => {
+  const file: RealityFile = {
+    format: REALITY_FILE_FORMAT,
+    version: REALITY_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(items.length === 1 ? { reality: items[0] } : { realities: items })
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const downloadRealityFile = (items: RealityItem[], name: string) => {
+  const blob = new Blob([serializeRealityFile(items)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'reality'}${REALITY_FILE_EXTENSION}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- Routing (Hash) ---
+
+type Route =
+  | { name: 'portal' }
+  | { name: 'scanner' }
+  | { name: 'vault'; id?: string }
+  | { name: 'studio' }
+  | { name: 'reality'; id: string }
+  | { name: 'unknown'; path: string };
+
+const routeTable: { pattern: string; toRoute: (params: Record<string, string>) => Route }[] = [
+  { pattern: '/', toRoute: () => ({ name: 'portal' }) },
+  { pattern: '/scanner', toRoute: () => ({ name: 'scanner' }) },
+  { pattern: '/vault', toRoute: () => ({ name: 'vault' }) },
+  { pattern: '/vault/:id', toRoute: ({ id }) => ({ name: 'vault', id }) },
+  { pattern: '/studio', toRoute: () => ({ name: 'studio' }) },
+  { pattern: '/reality/:id', toRoute: ({ id }) => ({ name: 'reality', id }) },
+];
+
+const matchPattern = (pattern: string, path: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = path.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      // A malformed escape (#/reality/%E0%A4%A) matches nothing and ends up on the not-found screen
+      try {
+        params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+      } catch {
+        return null;
+      }
+    } else if (patternParts[i] !== pathParts[i]) return null;
+  }
+  return params;
+};
+
+const parseRoute = (hash: string): Route => {
+  // Legacy deep link: #open?id=dragon
+  if (hash.startsWith('#open')) {
+    const id = new URLSearchParams(hash.split('?')[1]).get('id');
+    return id ? { name: 'reality', id } : { name: 'portal' };
+  }
+  const path = hash.replace(/^#/, '') || '/';
+  for (const entry of routeTable) {
+    const params = matchPattern(entry.pattern, path);
+    if (params) return entry.toRoute(params);
+  }
+  return { name: 'unknown', path };
+};
+
+const formatRoute = (route: Route): string => {
+  switch (route.name) {
+    case 'portal': return '#/';
+    case 'scanner': return '#/scanner';
+    case 'vault': return route.id ? `#/vault/${encodeURIComponent(route.id)}` : '#/vault';
+    case 'studio': return '#/studio';
+    case 'reality': return `#/reality/${encodeURIComponent(route.id)}`;
+    case 'unknown': return `#${route.path}`;
+  }
+};
+
+const dimensionRoutes: Route['name'][] = ['portal', 'scanner', 'vault', 'studio'];
+
+// --- Offline (Service Worker) ---
+
+// public/sw.js precaches the shell and fonts and caches reality images the first time they load.
+// The cache name is shared with the worker.
+const REALITY_IMAGE_CACHE = 'jeeni-realities-v1';
+
+// Images fetched before the worker took control never passed through it; once it is active,
+// hand it every image this page has already loaded so the first session is available offline too
+const handOverLoadedImages = () => {
+  const urls = performance.getEntriesByType('resource')
+    // Reality plates are mostly CSS background images, which report as 'css'
+    .filter(entry => ['img', 'css', 'fetch'].includes((entry as PerformanceResourceTiming).initiatorType))
+    .map(entry => entry.name);
+  navigator.serviceWorker.controller?.postMessage({ type: 'cache-reality-images', urls });
+};
+
+const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  // Registered at bootstrap rather than on load: the first reality images are requested during the first render
+  navigator.serviceWorker.register('/sw.js').catch(err => console.log(err));
+  navigator.serviceWorker.ready.then(handOverLoadedImages);
+  navigator.serviceWorker.addEventListener('controllerchange', handOverLoadedImages);
+};
+
+const subscribeOnline = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+const useOnline = () => useSyncExternalStore(subscribeOnline, () => navigator.onLine);
+
+// Which reality images can be shown right now: everything online, cached or inline (data:) images offline
+const useOfflineImages = () => {
+  const online = useOnline();
+  const [cached, setCached] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    if (!('caches' in window)) return;
+    let cancelled = false;
+    caches.open(REALITY_IMAGE_CACHE)
+      .then(cache => cache.keys())
+      .then(keys => { if (!cancelled) setCached(new Set(keys.map(request => request.url))); })
+      .catch(() => {});
+
+    // The worker reports each newly cached or evicted image so the list stays current without re-reading the cache
+    const handleMessage = (e: MessageEvent) => {
+      if (e.data?.type === 'reality-image-cached') setCached(prev => new Set(prev).add(e.data.url));
+      if (e.data?.type === 'reality-image-evicted') setCached(prev => {
+        const next = new Set(prev);
+        next.delete(e.data.url);
+        return next;
+      });
+    };
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => {
+      cancelled = true;
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, [online]);
+
+  const isAvailable = useCallback((url: string) => online || url.startsWith('data:') || cached.has(url), [online, cached]);
+
+  return { online, isAvailable };
+};
+
+// --- Assets (Preloading) ---
+
+type AssetStatus = 'loading' | 'ready' | 'failed';
+
+interface AssetEntry {
+  status: AssetStatus;
+  progress: number; // 0..1, bytes received when the server reports a length
+  src: string | null; // decoded object URL (or the original URL) once ready
+}
+
+const PENDING_ASSET: AssetEntry = { status: 'loading', progress: 0, src: null };
+const ASSET_LIMIT = 24; // decoded images kept beyond the ones on screen; the least recently used go first
+
+// Module-level so a preload started on the portal is already warm when the player mounts
+const assetEntries = new Map<string, AssetEntry>();
+const assetListeners = new Set<() => void>();
+const assetUsers = new Map<string, number>(); // mounted useAsset hooks per url, never evicted
+
+const releaseSrc = (entry: AssetEntry | undefined) => {
+  if (entry?.src?.startsWith('blob:')) URL.revokeObjectURL(entry.src);
+};
+
+// Map order doubles as recency: touched entries move to the end, so eviction walks from the front
+const evictAssets = () => {
+  for (const [url, entry] of assetEntries) {
+    if (assetEntries.size <= ASSET_LIMIT) break;
+    if (entry.status === 'loading' || assetUsers.has(url)) continue;
+    assetEntries.delete(url);
+    releaseSrc(entry);
+  }
+};
+
+const setAsset = (url: string, entry: AssetEntry) => {
+  const previous = assetEntries.get(url);
+  if (previous?.src !== entry.src) releaseSrc(previous);
+  assetEntries.delete(url);
+  assetEntries.set(url, entry);
+  evictAssets();
+  assetListeners.forEach(listener => listener());
+};
+
+const subscribeAssets = (listener: () => void) => {
+  assetListeners.add(listener);
+  return () => { assetListeners.delete(listener); };
+};
+
+const decodeImage = (src: string) => {
+  const img = new Image();
+  img.src = src;
+  return img.decode();
+};
+
+// Streams the image so progress is real, then decodes it before anyone paints it.
+// Hosts without CORS (or an opaque cached copy while offline) fall back to a plain <img> load.
+const fetchImage = async (url: string) => {
+  if (url.startsWith('data:')) {
+    await decodeImage(url);
+    return url;
+  }
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: 'cors' });
+    if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+  } catch {
+    await decodeImage(url);
+    return url;
+  }
+
+  const total = Number(response.headers.get('content-length')) || 0;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    if (total) setAsset(url, { status: 'loading', progress: Math.min(0.95, received / total), src: null });
+  }
+
+  const src = URL.createObjectURL(new Blob(chunks, { type: response.headers.get('content-type') ?? 'image/*' }));
+  await decodeImage(src);
+  return src;
+};
+
+// A failed image is tried again the next time it is asked for, so one blip does not stick for the session
+const loadAsset = (url: string) => {
+  if (!url) return;
+  const existing = assetEntries.get(url);
+  if (existing && existing.status !== 'failed') {
+    assetEntries.delete(url);
+    assetEntries.set(url, existing);
+    return;
+  }
+  setAsset(url, PENDING_ASSET);
+  fetchImage(url)
+    .then(src => setAsset(url, { status: 'ready', progress: 1, src }))
+    .catch(() => setAsset(url, { status: 'failed', progress: 1, src: null }));
+};
+
+const preloadAssets = (urls: string[]) => urls.forEach(loadAsset);
+
+const useAsset = (url: string) => {
+  useEffect(() => {
+    assetUsers.set(url, (assetUsers.get(url) ?? 0) + 1);
+    loadAsset(url);
+    const retry = () => loadAsset(url);
+    window.addEventListener('online', retry);
+    return () => {
+      window.removeEventListener('online', retry);
+      const users = (assetUsers.get(url) ?? 1) - 1;
+      if (users > 0) assetUsers.set(url, users);
+      else assetUsers.delete(url);
+      evictAssets();
+    };
+  }, [url]);
+  return useSyncExternalStore(subscribeAssets, () => assetEntries.get(url) ?? PENDING_ASSET);
+};
+
+// Painted while an image loads and kept if it fails, so a reality is never a blank frame
+const realityGradient = (themeColor: string) =>
+  `radial-gradient(ellipse at 30% 20%, ${themeColor}99 0%, transparent 60%), radial-gradient(ellipse at 75% 85%, ${themeColor}55 0%, transparent 55%), linear-gradient(160deg, #0A011A 0%, #000 100%)`;
+
+const realityBackground = (asset: AssetEntry, themeColor: string) =>
+  asset.status === 'ready' && asset.src ? `url("${asset.src}")` : realityGradient(themeColor);
+
+// --- Analytics (Event Log) ---
+
+// Everything stays on the device: events land in a ring buffer in localStorage and fan out to any sinks
+type AnalyticsEventInput =
+  | { type: 'mode-switch'; from: number; to: number; via: 'pointer' | 'keyboard' | 'route' | 'select' } // route: hash change, select: a Vault pick
+  | { type: 'select'; realityId: string; source: 'vault' | 'swipe' }
+  | { type: 'warp'; realityId: string }
+  | { type: 'travel'; from: string; to: string }
+  | { type: 'exit'; realityId: string; dwellMs: number; via: 'wake' | 'travel' | 'navigation' }
+  | { type: 'wake-abandoned'; realityId: string; progress: number }
+  | { type: 'scan'; outcome: 'captured' | 'failed' | 'no-signal'; realityId?: string }
+  | { type: 'unlock'; realityId: string };
+
+type AnalyticsEvent = AnalyticsEventInput & { at: number };
+
+// Point this at a collector later; receive() must not throw back into the app (failures are logged and dropped)
+interface AnalyticsSink {
+  name: string;
+  receive: (event: AnalyticsEvent) => void;
+}
+
+const ANALYTICS_STORAGE_KEY = 'jeeni.analytics';
+const ANALYTICS_CAPACITY = 500;
+
+// Fixed-size buffer: once full, each push overwrites the oldest event
+const createEventRing = <T,>(capacity: number, initial: T[] = []) => {
+  const slots: T[] = [];
+  let start = 0;
+  const push = (item: T) => {
+    if (slots.length < capacity) {
+      slots.push(item);
+    } else {
+      slots[start] = item;
+      start = (start + 1) % capacity;
+    }
+  };
+  initial.slice(-capacity).forEach(push);
+  return {
+    push,
+    list: (): T[] => [...slots.slice(start), ...slots.slice(0, start)],
+    clear: () => { slots.length = 0; start = 0; }
+  };
+};
+
+const loadAnalytics = (): AnalyticsEvent[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ANALYTICS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(e => e && typeof e.type === 'string' && typeof e.at === 'number') : [];
+  } catch {
+    return [];
+  }
+};
+
+const createConsoleSink = (): AnalyticsSink => ({
+  name: 'console',
+  receive: event => console.log('[analytics]', event.type, event)
+});
+
+// ?analytics=console mirrors every event to the console
+const resolveAnalyticsSinks = (): AnalyticsSink[] =>
+  new URLSearchParams(window.location.search).get('analytics') === 'console' ? [createConsoleSink()] : [];
+
+const createAnalytics = (initialSinks: AnalyticsSink[] = []) => {
+  const ring = createEventRing(ANALYTICS_CAPACITY, loadAnalytics());
+  const sinks = new Set(initialSinks);
+  const listeners = new Set<() => void>();
+  let snapshot = ring.list();
+
+  const commit = () => {
+    snapshot = ring.list();
+    try { localStorage.setItem(ANALYTICS_STORAGE_KEY, JSON.stringify(snapshot)); } catch { /* private mode */ }
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    emit: (input: AnalyticsEventInput) => {
+      const event: AnalyticsEvent = { ...input, at: Date.now() };
+      ring.push(event);
+      commit();
+      sinks.forEach(sink => {
+        try { sink.receive(event); } catch (err) { console.warn(`Analytics sink "${sink.name}" failed`, err); }
+      });
+    },
+    addSink: (sink: AnalyticsSink) => {
+      sinks.add(sink);
+      return () => { sinks.delete(sink); };
+    },
+    clear: () => {
+      ring.clear();
+      commit();
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    getSnapshot: () => snapshot
+  };
+};
+
+type Analytics = ReturnType<typeof createAnalytics>;
+
+const AnalyticsContext = createContext<Analytics | null>(null);
+
+const AnalyticsProvider = ({ children }: { children: React.ReactNode }) => {
+  const [analytics] = useState(() => createAnalytics(resolveAnalyticsSinks()));
+  return <AnalyticsContext.Provider value={analytics}>{children}</AnalyticsContext.Provider>;
+};
+
+const useAnalytics = () => {
+  const analytics = useContext(AnalyticsContext);
+  if (!analytics) throw new Error('useAnalytics must be used inside <AnalyticsProvider>');
+  return analytics;
+};
+
+const useAnalyticsEvents = () => {
+  const analytics = useAnalytics();
+  return useSyncExternalStore(analytics.subscribe, analytics.getSnapshot);
+};
+
+const summarizeAnalytics = (events: AnalyticsEvent[]) => {
+  const warps = new Map<string, number>();
+  let dwellTotal = 0, dwellCount = 0, wakes = 0, abandoned = 0;
+  let vaultVisits = 0, vaultSelects = 0, scans = 0, scanFailures = 0, unlocks = 0;
+  let inVault = false; // a visit counts as a click-through at most once
+  for (const event of events) {
+    switch (event.type) {
+      case 'warp': warps.set(event.realityId, (warps.get(event.realityId) ?? 0) + 1); break;
+      case 'exit':
+        dwellTotal += event.dwellMs;
+        dwellCount++;
+        if (event.via === 'wake') wakes++;
+        break;
+      case 'wake-abandoned': abandoned++; break;
+      case 'mode-switch':
+        inVault = event.to === 2;
+        if (inVault) vaultVisits++;
+        break;
+      case 'select':
+        if (event.source === 'vault' && inVault) vaultSelects++;
+        inVault = false;
+        break;
+      case 'scan':
+        scans++;
+        if (event.outcome !== 'captured') scanFailures++;
+        break;
+      case 'unlock': unlocks++; break;
+    }
+  }
+  return {
+    total: events.length,
+    since: events[0]?.at ?? null,
+    warps: [...warps].sort((a, b) => b[1] - a[1]),
+    averageDwellMs: dwellCount ? dwellTotal / dwellCount : 0,
+    abandonRate: wakes + abandoned ? abandoned / (wakes + abandoned) : 0,
+    vaultClickThrough: vaultVisits ? vaultSelects / vaultVisits : 0,
+    scans,
+    scanFailures,
+    unlocks
+  };
+};
+
+// --- Animations (Registry) ---
+
+// Every CSS animation the app uses, injected once as a stylesheet (atmosphere modules bring their own).
+// Components ask for them through anim('name'), so a misspelt name fails the type-check instead of silently doing nothing.
+// Durations and delays divide by --anim-speed; --anim-play-state pauses anything beneath where it is set.
+interface AnimationSpec {
+  keyframes: string;
+  duration: number;                  // seconds at speed 1
+  easing: string;
+  repeat?: number;                   // omit to loop forever
+  direction?: 'alternate';
+  fill?: 'forwards';
+  delay?: number;                    // seconds
+  declarations?: string;             // extra rules for the class (starting opacity, background-size...)
+}
+
+const FADE_IN_KEYFRAMES = 'from { opacity: 0; } to { opacity: 1; }';
+const SLOW_EASE_OUT = 'cubic-bezier(0.2, 0.8, 0.2, 1)';
+
+const ANIMATIONS = {
+  // Portal card
+  'portal-drift': {
+    keyframes: `0% { transform: translate(0,0) rotate(0deg); }
+      25% { transform: translate(4px, -6px) rotate(1deg); }
+      50% { transform: translate(-3px, 5px) rotate(-0.5deg); }
+      75% { transform: translate(-5px, -3px) rotate(0.5deg); }
+      100% { transform: translate(0,0) rotate(0deg); }`,
+    duration: 12, easing: 'ease-in-out'
+  },
+  'portal-pulse': {
+    keyframes: `0% { transform: scale(1); filter: brightness(1); }
+      50% { transform: scale(1.15); filter: brightness(1.3); }
+      100% { transform: scale(1); filter: brightness(1); }`,
+    duration: 6, easing: 'ease-in-out'
+  },
+  'portal-pulse-glow': {
+    keyframes: '0% { transform: scale(1); opacity: 0.4; } 50% { transform: scale(1.4); opacity: 0.8; } 100% { transform: scale(1); opacity: 0.4; }',
+    duration: 6, easing: 'ease-in-out'
+  },
+  'liquid-border': {
+    keyframes: `0% { border-radius: 60% 40% 30% 70% / 60% 30% 70% 40%; }
+      33% { border-radius: 50% 50% 60% 40% / 50% 60% 40% 60%; }
+      66% { border-radius: 40% 60% 50% 50% / 40% 50% 60% 50%; }
+      100% { border-radius: 60% 40% 30% 70% / 60% 30% 70% 40%; }`,
+    duration: 8, easing: 'ease-in-out', direction: 'alternate'
+  },
+  'liquid-swirl': {
+    keyframes: `0% { transform: rotate(0deg) scale(1); filter: hue-rotate(0deg); }
+      50% { transform: rotate(180deg) scale(1.1); filter: hue-rotate(15deg); }
+      100% { transform: rotate(360deg) scale(1); filter: hue-rotate(0deg); }`,
+    duration: 15, easing: 'linear'
+  },
+  'warp-spin': {
+    keyframes: `0% { transform: scale(1.4) rotate(0deg); filter: contrast(1.5) saturate(1.5) hue-rotate(0deg); }
+      100% { transform: scale(1.4) rotate(-360deg); filter: contrast(1.5) saturate(1.5) hue-rotate(90deg); }`,
+    duration: 20, easing: 'linear'
+  },
+  'spin-slow': {
+    keyframes: 'from { transform: rotate(0deg); } to { transform: rotate(360deg); }',
+    duration: 4, easing: 'linear'
+  },
+  'singularity': {
+    keyframes: `0% { transform: scale(1) rotate(0deg); opacity: 0.8; border-radius: 40% 60% 50% 50% / 50% 50% 60% 40%; }
+      33% { transform: scale(1.1) rotate(120deg); opacity: 1; border-radius: 60% 40% 30% 70% / 60% 30% 70% 40%; }
+      66% { transform: scale(0.9) rotate(240deg); opacity: 0.9; border-radius: 50% 50% 60% 40% / 40% 60% 50% 50%; }
+      100% { transform: scale(1) rotate(360deg); opacity: 0.8; border-radius: 40% 60% 50% 50% / 50% 50% 60% 40%; }`,
+    duration: 4, easing: 'linear'
+  },
+
+  // Backdrops
+  'spin-very-slow': {
+    keyframes: '0% { transform: rotate(0deg) scale(1.5); } 100% { transform: rotate(360deg) scale(1.5); }',
+    duration: 60, easing: 'linear'
+  },
+  'pan-rays': {
+    keyframes: '0% { background-position: 0% 50%; opacity: 0.3; } 50% { background-position: 100% 50%; opacity: 0.6; } 100% { background-position: 0% 50%; opacity: 0.3; }',
+    duration: 10, easing: 'ease-in-out', declarations: 'background-size: 200% 200%;'
+  },
+  'pan-video': {
+    keyframes: '0% { transform: scale(1.0); } 100% { transform: scale(1.2); }',
+    duration: 30, easing: 'ease', direction: 'alternate'
+  },
+  'pulse-slow': {
+    keyframes: '0%, 100% { opacity: 1; } 50% { opacity: 0.5; }',
+    duration: 3, easing: 'ease-in-out'
+  },
+  'float-slow': {
+    keyframes: '0%, 100% { transform: translateY(0); } 50% { transform: translateY(-10px); }',
+    duration: 6, easing: 'ease-in-out'
+  },
+  'link-flow': {
+    keyframes: 'to { stroke-dashoffset: -24; }',
+    duration: 1.5, easing: 'linear'
+  },
+
+  // One-shot entrances and reveals
+  'fade-in-slow': { keyframes: FADE_IN_KEYFRAMES, duration: 2, easing: 'ease-out', repeat: 1, fill: 'forwards' },
+  'fade-in-delay': { keyframes: FADE_IN_KEYFRAMES, duration: 1.5, easing: 'ease-out', repeat: 1, fill: 'forwards', delay: 1.5, declarations: 'opacity: 0;' },
+  'fade-out': { keyframes: 'from { opacity: 1; } to { opacity: 0; }', duration: 0.1, easing: 'ease-out', repeat: 1, fill: 'forwards' },
+  'slide-up-fade': {
+    keyframes: 'from { opacity: 0; transform: translateY(20px); } to { opacity: 1; transform: translateY(0); }',
+    duration: 1, easing: 'ease-out', repeat: 1, fill: 'forwards', delay: 0.5, declarations: 'opacity: 0;'
+  },
+  'scale-up-fade': {
+    keyframes: 'from { opacity: 0; transform: scale(0.9); } to { opacity: 1; transform: scale(1); }',
+    duration: 1.2, easing: SLOW_EASE_OUT, repeat: 1, fill: 'forwards', delay: 0.8, declarations: 'opacity: 0;'
+  },
+  'memory-reveal': {
+    keyframes: `0% { transform: scale(1); filter: brightness(1) blur(0px); }
+      40% { transform: scale(1.3); filter: brightness(2.5) blur(2px); }
+      100% { transform: scale(1.1); filter: brightness(1.2) blur(0px); }`,
+    duration: 1.6, easing: SLOW_EASE_OUT, repeat: 1, fill: 'forwards', declarations: 'z-index: 300 !important;'
+  },
+  'shutter-flash': { keyframes: '0% { opacity: 0.9; } 100% { opacity: 0; }', duration: 0.4, easing: 'ease-out', repeat: 1, fill: 'forwards' },
+  'crossfade-in': { keyframes: FADE_IN_KEYFRAMES, duration: 1, easing: 'ease-out', repeat: 1, fill: 'forwards' },
+} satisfies Record<string, AnimationSpec>;
+
+type AnimationName = keyof typeof ANIMATIONS | AtmosphereAnimationName; // atmosphere modules bring their own
+
+// The class for a registered animation, e.g. className={`absolute ${anim('twinkle')}`}
+const anim = (name: AnimationName) => `animate-${name}`;
+
+// For inline animationDuration / animationDelay overrides, so they follow the global speed too
+const animDuration = (seconds: number) => `calc(${seconds}s / var(--anim-speed, 1))`;
+
+// Shared utility classes that used to ride along in the same style block
+const BASE_STYLES = `
+  .bg-noise {
+    background-image: url("data:image/svg+xml,%3Csvg viewBox='0 0 200 200' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.65' numOctaves='3' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)' opacity='1'/%3E%3C/svg%3E");
+  }
+  .text-shadow-glow { text-shadow: 0 0 10px rgba(255, 255, 255, 0.5), 0 0 20px color-mix(in srgb, var(--theme-glow) 40%, transparent); }
+`;
+
+const animationRule = (name: string, spec: AnimationSpec) => {
+  const animation = [
+    name,
+    animDuration(spec.duration),
+    spec.easing,
+    animDuration(spec.delay ?? 0),
+    spec.repeat ?? 'infinite',
+    spec.direction ?? 'normal',
+    spec.fill ?? 'none'
+  ].join(' ');
+  return `@keyframes ${name} { ${spec.keyframes} }
+  .${anim(name as AnimationName)} { animation: ${animation}; animation-play-state: var(--anim-play-state, running); ${spec.declarations ?? ''} }`;
+};
+
+const ANIMATION_STYLE_ID = 'jeeni-animations';
+
+const animationControl = { speed: 1, pausedBy: new Set<string>() };
+
+const applyAnimationControl = () => {
+  const root = document.documentElement;
+  root.style.setProperty('--anim-speed', String(animationControl.speed));
+  root.style.setProperty('--anim-play-state', animationControl.pausedBy.size > 0 ? 'paused' : 'running');
+};
+
+// Scales every registered animation (2 = twice as fast)
+const setAnimationSpeed = (speed: number) => {
+  animationControl.speed = Math.max(0.1, speed);
+  applyAnimationControl();
+};
+
+// Pauses everything until each reason that paused it has resumed
+const setAnimationsPaused = (reason: string, paused: boolean) => {
+  if (paused) animationControl.pausedBy.add(reason);
+  else animationControl.pausedBy.delete(reason);
+  applyAnimationControl();
+};
+
+// Style for a subtree whose animations should hold still (hidden dimensions, covered plates)
+const pausedAnimations = (paused: boolean): React.CSSProperties | undefined =>
+  paused ? ({ '--anim-play-state': 'paused' } as React.CSSProperties) : undefined;
+
+const CROSSFADE_MS = 1000;
+
+// Keeps the outgoing value mounted (flagged leaving) long enough to fade it out under the incoming one.
+// Pair entering layers with anim('crossfade-in') and leaving ones with an opacity transition.
+// Every leaving layer gets its own prune timer, so rapid switching neither piles layers up nor cuts a fade short.
+const useCrossfade = <T,>(item: T, key: string, durationMs = CROSSFADE_MS) => {
+  const [layers, setLayers] = useState([{ key, item, leaving: false }]);
+  const pruneTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    // A layer called back before it finished leaving stays
+    clearTimeout(pruneTimers.current.get(key));
+    pruneTimers.current.delete(key);
+    setLayers(prev => prev[prev.length - 1]?.key === key
+      ? prev.map(layer => layer.key === key ? { ...layer, item } : layer)
+      : [...prev.filter(layer => layer.key !== key).map(layer => ({ ...layer, leaving: true })), { key, item, leaving: false }]);
+  }, [item, key]);
+
+  useEffect(() => {
+    layers.forEach(layer => {
+      if (!layer.leaving || pruneTimers.current.has(layer.key)) return;
+      pruneTimers.current.set(layer.key, setTimeout(() => {
+        pruneTimers.current.delete(layer.key);
+        setLayers(prev => prev.filter(other => other.key !== layer.key || !other.leaving));
+      }, durationMs));
+    });
+  }, [layers, durationMs]);
+
+  useEffect(() => {
+    const timers = pruneTimers.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  return layers;
+};
+
+const installAnimations = () => {
+  if (document.getElementById(ANIMATION_STYLE_ID)) return;
+  const style = document.createElement('style');
+  style.id = ANIMATION_STYLE_ID;
+  const specs: [string, AnimationSpec][] = [
+    ...Object.entries(ANIMATIONS),
+    ...Object.values(ATMOSPHERES).flatMap(module => Object.entries(module.animations))
+  ];
+  style.textContent = BASE_STYLES + specs.map(([name, spec]) => animationRule(name, spec)).join('\n');
+  document.head.appendChild(style);
+
+  // Nothing needs to move in a background tab
+  const syncVisibility = () => setAnimationsPaused('hidden-tab', document.hidden);
+  document.addEventListener('visibilitychange', syncVisibility);
+  syncVisibility();
+};
+
+// --- Motion Quality ---
+
+type MotionQuality = 'full' | 'reduced' | 'minimal';
+type MotionPreference = 'auto' | MotionQuality;
+
+const MOTION_LEVELS: MotionQuality[] = ['full', 'reduced', 'minimal'];
+const MOTION_STORAGE_KEY = 'jeeni.motion-preference';
+const FRAME_WINDOW_MS = 2000;
+const SLOW_FRAME_MS = 28;      // below ~35fps: step down one level
+const VERY_SLOW_FRAME_MS = 45; // below ~22fps: go straight to minimal
+
+const lowerMotion = (...levels: MotionQuality[]) => MOTION_LEVELS[Math.max(...levels.map(level => MOTION_LEVELS.indexOf(level)))];
+
+interface MotionState {
+  quality: MotionQuality;       // what components should render
+  preference: MotionPreference; // user override, 'auto' = OS setting + measured frame times
+  detected: MotionQuality;      // what 'auto' resolves to
+  setPreference: (preference: MotionPreference) => void;
+}
+
+const MotionContext = createContext<MotionState>({ quality: 'full', preference: 'auto', detected: 'full', setPreference: () => {} });
+
+const MotionProvider = ({ children }: { children: React.ReactNode }) => {
+  const [preference, setPreferenceState] = useState<MotionPreference>(() => {
+    try {
+      const stored = localStorage.getItem(MOTION_STORAGE_KEY) as MotionPreference | null;
+      return stored && (stored === 'auto' || MOTION_LEVELS.includes(stored)) ? stored : 'auto';
+    } catch {
+      return 'auto'; // storage blocked
+    }
+  });
+  const [prefersReduced, setPrefersReduced] = useState(() => window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false);
+  const [measured, setMeasured] = useState<MotionQuality>('full');
+
+  useEffect(() => {
+    const query = window.matchMedia?.('(prefers-reduced-motion: reduce)');
+    if (!query) return;
+    const handleChange = () => setPrefersReduced(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  // Frame-time probe: two slow windows in a row step quality down; it never steps back up on its own
+  useEffect(() => {
+    if (preference !== 'auto' || measured === 'minimal') return;
+    let frame = 0;
+    let last = performance.now();
+    let windowStart = last;
+    let total = 0;
+    let count = 0;
+    let slowWindows = 0;
+
+    const tick = (now: number) => {
+      const delta = now - last;
+      last = now;
+      // Ignore hidden tabs and long stalls (tab switches, debugger)
+      if (!document.hidden && delta < 250) {
+        total += delta;
+        count++;
+      }
+      if (now - windowStart >= FRAME_WINDOW_MS && count > 0) {
+        const average = total / count;
+        slowWindows = average > SLOW_FRAME_MS ? slowWindows + 1 : 0;
+        if (average > VERY_SLOW_FRAME_MS && slowWindows >= 2) {
+          setMeasured('minimal');
+          return;
+        }
+        if (slowWindows >= 2) {
+          setMeasured(prev => lowerMotion(prev, 'reduced') === prev ? 'minimal' : 'reduced');
+          return;
+        }
+        windowStart = now;
+        total = 0;
+        count = 0;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [preference, measured]);
+
+  const setPreference = useCallback((next: MotionPreference) => {
+    setPreferenceState(next);
+    try { localStorage.setItem(MOTION_STORAGE_KEY, next); } catch { /* private mode */ }
+  }, []);
+
+  const detected = lowerMotion(prefersReduced ? 'minimal' : 'full', measured);
+  const quality = preference === 'auto' ? detected : preference;
+
+  // Reduced motion keeps the ambient loops but slows them down
+  useEffect(() => setAnimationSpeed(quality === 'reduced' ? 0.6 : 1), [quality]);
+
+  const value = useMemo(() => ({
+    quality,
+    preference,
+    detected,
+    setPreference
+  }), [quality, preference, detected, setPreference]);
+
+  return <MotionContext.Provider value={value}>{children}</MotionContext.Provider>;
+};
+
+const useMotion = () => useContext(MotionContext);
+const useMotionQuality = () => useMotion().quality;
+
+// --- Orientation (Gyroscope) ---
+
+type OrientationStatus = 'unavailable' | 'prompt' | 'denied' | 'waiting' | 'active';
+
+interface OrientationReading {
+  beta: number;  // degrees, front/back
+  gamma: number; // degrees, left/right
+}
+
+interface OrientationTilt {
+  x: number; // -1..1 across the screen, after calibration and smoothing
+  y: number; // -1..1 down the screen
+}
+
+// Where readings come from: the real sensor, or a scripted stand-in for desktop testing
+interface OrientationSource {
+  simulated: boolean;
+  needsPermission: boolean;
+  requestPermission: () => Promise<boolean>;
+  subscribe: (listener: (reading: OrientationReading) => void) => () => void;
+}
+
+const ORIENTATION_STORAGE_KEY = 'jeeni.orientation';
+const ORIENTATION_RANGE_DEG = 25;   // tilt away from level that maps to full deflection
+const ORIENTATION_SMOOTHING = 0.15; // low-pass factor applied per reading
+const ORIENTATION_EPSILON = 0.002;  // smaller changes are not published
+const DEFAULT_NEUTRAL: OrientationReading = { beta: 45, gamma: 0 }; // a phone held comfortably in front of you
+
+type PermissionedOrientationEvent = typeof DeviceOrientationEvent & { requestPermission?: () => Promise<'granted' | 'denied'> };
+
+const createDeviceOrientationSource = (): OrientationSource | null => {
+  if (typeof DeviceOrientationEvent === 'undefined') return null;
+  const Sensor = DeviceOrientationEvent as PermissionedOrientationEvent;
+  return {
+    simulated: false,
+    // iOS only hands out readings after a permission prompt triggered by a tap
+    needsPermission: typeof Sensor.requestPermission === 'function',
+    requestPermission: () => Sensor.requestPermission
+      ? Sensor.requestPermission().then(result => result === 'granted', () => false)
+      : Promise.resolve(true),
+    subscribe: listener => {
+      const handleOrientation = (e: DeviceOrientationEvent) => {
+        if (e.beta === null || e.gamma === null) return; // desktops fire empty events
+        listener({ beta: e.beta, gamma: e.gamma });
+      };
+      window.addEventListener('deviceorientation', handleOrientation);
+      return () => window.removeEventListener('deviceorientation', handleOrientation);
+    }
+  };
+};
+
+// Open the app with ?sensor=fake to sway a virtual phone in a slow figure-eight
+const createFakeOrientationSource = (): OrientationSource => ({
+  simulated: true,
+  needsPermission: false,
+  requestPermission: () => Promise.resolve(true),
+  subscribe: listener => {
+    const start = performance.now();
+    const timer = setInterval(() => {
+      const t = (performance.now() - start) / 1000;
+      listener({ beta: DEFAULT_NEUTRAL.beta + Math.sin(t * 0.6) * 15, gamma: Math.sin(t * 0.9) * 20 });
+    }, 16);
+    return () => clearInterval(timer);
+  }
+});
+
+const resolveOrientationSource = () =>
+  new URLSearchParams(window.location.search).get('sensor') === 'fake' ? createFakeOrientationSource() : createDeviceOrientationSource();
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+
+// Readings are in device axes; rotate them so x / y follow the screen in landscape too
+const readingToTilt = (reading: OrientationReading, neutral: OrientationReading): OrientationTilt => {
+  const x = (reading.gamma - neutral.gamma) / ORIENTATION_RANGE_DEG;
+  const y = (reading.beta - neutral.beta) / ORIENTATION_RANGE_DEG;
+  const angle = screen.orientation?.angle ?? 0;
+  if (angle === 90) return { x: clampUnit(y), y: clampUnit(-x) };
+  if (angle === 180) return { x: clampUnit(-x), y: clampUnit(-y) };
+  if (angle === 270) return { x: clampUnit(-y), y: clampUnit(x) };
+  return { x: clampUnit(x), y: clampUnit(y) };
+};
+
+interface StoredOrientation {
+  enabled: boolean;
+  neutral: OrientationReading;
+}
+
+const loadOrientation = (): StoredOrientation => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ORIENTATION_STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored.enabled === 'boolean' && isFinite(stored.neutral?.beta) && isFinite(stored.neutral?.gamma)) return stored;
+  } catch { /* corrupt or private mode */ }
+  return { enabled: true, neutral: DEFAULT_NEUTRAL };
+};
+
+interface OrientationState {
+  status: OrientationStatus;
+  simulated: boolean;
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void; // call from a tap: turning it on may need to ask permission
+  calibrate: () => void;                  // the current pose becomes level
+  subscribeTilt: (listener: () => void) => () => void;
+  getTilt: () => OrientationTilt | null;  // null unless the sensor is enabled and reporting
+}
+
+const OrientationContext = createContext<OrientationState>({
+  status: 'unavailable', simulated: false, enabled: false, setEnabled: () => {}, calibrate: () => {},
+  subscribeTilt: () => () => {}, getTilt: () => null
+});
+
+const OrientationProvider = ({ children }: { children: React.ReactNode }) => {
+  const source = useMemo(resolveOrientationSource, []);
+  const [stored, setStored] = useState(loadOrientation);
+  const [permission, setPermission] = useState<'unknown' | 'granted' | 'denied'>('unknown');
+  const [receiving, setReceiving] = useState(false);
+
+  // Tilt changes every reading, so it lives outside React state and is read through useSyncExternalStore
+  const tiltRef = useRef<OrientationTilt | null>(null);
+  const listenersRef = useRef(new Set<() => void>());
+  const lastReadingRef = useRef<OrientationReading | null>(null);
+  const neutralRef = useRef(stored.neutral);
+  neutralRef.current = stored.neutral;
+
+  const publish = (tilt: OrientationTilt | null) => {
+    tiltRef.current = tilt;
+    listenersRef.current.forEach(listener => listener());
+  };
+
+  const allowed = !!source && (!source.needsPermission || permission === 'granted');
+  const listening = allowed && stored.enabled;
+
+  useEffect(() => {
+    if (!listening || !source) return;
+    let smoothed: OrientationTilt | null = null;
+    const unsubscribe = source.subscribe(reading => {
+      lastReadingRef.current = reading;
+      const target = readingToTilt(reading, neutralRef.current);
+      const next: OrientationTilt = smoothed
+        ? { x: smoothed.x + (target.x - smoothed.x) * ORIENTATION_SMOOTHING, y: smoothed.y + (target.y - smoothed.y) * ORIENTATION_SMOOTHING }
+        : target;
+      const previous = tiltRef.current;
+      smoothed = next;
+      if (!previous || Math.abs(previous.x - next.x) > ORIENTATION_EPSILON || Math.abs(previous.y - next.y) > ORIENTATION_EPSILON) publish(next);
+      setReceiving(true);
+    });
+    return () => {
+      unsubscribe();
+      setReceiving(false);
+      publish(null);
+    };
+  }, [listening, source]);
+
+  const save = (next: StoredOrientation) => {
+    setStored(next);
+    try { localStorage.setItem(ORIENTATION_STORAGE_KEY, JSON.stringify(next)); } catch { /* private mode */ }
+  };
+
+  const storedRef = useRef(stored);
+  storedRef.current = stored;
+
+  const setEnabled = useCallback((enabled: boolean) => {
+    save({ ...storedRef.current, enabled });
+    if (enabled && source?.needsPermission && permission !== 'granted') {
+      source.requestPermission().then(granted => setPermission(granted ? 'granted' : 'denied'));
+    }
+  }, [source, permission]);
+
+  const calibrate = useCallback(() => {
+    if (lastReadingRef.current) save({ ...storedRef.current, neutral: lastReadingRef.current });
+  }, []);
+
+  const subscribeTilt = useCallback((listener: () => void) => {
+    listenersRef.current.add(listener);
+    return () => { listenersRef.current.delete(listener); };
+  }, []);
+  const getTilt = useCallback(() => tiltRef.current, []);
+
+  const status: OrientationStatus = !source ? 'unavailable'
+    : permission === 'denied' ? 'denied'
+    : !allowed ? 'prompt'
+    : receiving ? 'active'
+    : 'waiting';
+
+  const value = useMemo(() => ({
+    status,
+    simulated: !!source?.simulated,
+    enabled: stored.enabled,
+    setEnabled,
+    calibrate,
+    subscribeTilt,
+    getTilt
+  }), [status, source, stored.enabled, setEnabled, calibrate, subscribeTilt, getTilt]);
+
+  return <OrientationContext.Provider value={value}>{children}</OrientationContext.Provider>;
+};
+
+const useOrientation = () => useContext(OrientationContext);
+
+// Live, smoothed device tilt handed to a callback that writes styles directly, so readings never re-render.
+// The tilt is null on desktops, when disabled, or when reduced to minimal motion
+const useOrientationTiltListener = (listener: (tilt: OrientationTilt | null) => void) => {
+  const { subscribeTilt, getTilt } = useOrientation();
+  const minimal = useMotionQuality() === 'minimal';
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+  useEffect(() => {
+    const notify = () => listenerRef.current(minimal ? null : getTilt());
+    notify();
+    return subscribeTilt(notify);
+  }, [subscribeTilt, getTilt, minimal]);
+};
+
+// Left/right tilt quantized to 1/steps; only a change in the rounded value re-renders
+const useOrientationPan = (steps = 50) => {
+  const { subscribeTilt, getTilt } = useOrientation();
+  const pan = useSyncExternalStore(subscribeTilt, () => {
+    const tilt = getTilt();
+    return tilt ? Math.round(tilt.x * steps) / steps : null;
+  });
+  return useMotionQuality() === 'minimal' ? null : pan;
+};
+
+// --- Gestures (Pointer Events) ---
+
+interface GestureThresholds {
+  swipeDistance: number;    // px travelled before a release counts as a swipe...
+  swipeVelocity: number;    // ...or px/ms at release for a short flick
+  flickDistance: number;    // px a flick still has to cover
+  swipeMaxDuration: number; // ms; slower drags are not swipes
+  axisLock: number;         // the main axis must beat the cross axis by this ratio
+  captureDistance: number;  // px of travel before a drag captures the pointer
+  panThreshold: number;     // px sideways before a drag becomes a live pan
+  pinchThreshold: number;   // scale change before a pinch engages
+  rotateThreshold: number;  // degrees before a rotate engages
+}
+
+const DEFAULT_GESTURE_THRESHOLDS: GestureThresholds = {
+  swipeDistance: 80,
+  swipeVelocity: 0.5,
+  flickDistance: 24,
+  swipeMaxDuration: 800,
+  axisLock: 1.5,
+  captureDistance: 10,
+  panThreshold: 10,
+  pinchThreshold: 0.04,
+  rotateThreshold: 6,
+};
+
+type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+type GesturePhase = 'start' | 'move' | 'end';
+
+interface GestureHandlers {
+  onSwipe?: (direction: SwipeDirection, velocity: number) => void;
+  onPan?: (dx: number, phase: GesturePhase, velocity: number) => void; // live horizontal drag; velocity (px/ms, signed) only on 'end'
+  onPinch?: (scale: number, phase: GesturePhase) => void;    // scale relative to where the pinch started
+  onRotate?: (degrees: number, phase: GesturePhase) => void; // clockwise, relative to the start
+}
+
+interface TrackedPointer {
+  x: number;
+  y: number;
+  startX: number;
+  startY: number;
+  startTime: number;
+  samples: { t: number; x: number; y: number }[]; // recent positions for release velocity
+  panning: boolean;
+}
+
+const VELOCITY_WINDOW_MS = 100;
+
+const pointerSpan = (a: TrackedPointer, b: TrackedPointer) => ({
+  distance: Math.hypot(b.x - a.x, b.y - a.y),
+  angle: Math.atan2(b.y - a.y, b.x - a.x) * 180 / Math.PI,
+});
+
+const normalizeDegrees = (degrees: number) => ((degrees + 540) % 360) - 180;
+
+// One pointer: swipes (or a live pan, when handled). Two pointers: pinch and rotate. Works the same for mouse, touch and pen.
+// Returns props to spread on the surface, plus a click guard so a swipe does not also "click".
+const useGestures = (handlers: GestureHandlers, thresholds: Partial<GestureThresholds> = {}) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const limits = { ...DEFAULT_GESTURE_THRESHOLDS, ...thresholds };
+  const limitsRef = useRef(limits);
+  limitsRef.current = limits;
+
+  const pointers = useRef(new Map<number, TrackedPointer>());
+  const multi = useRef<{ distance: number; angle: number; pinching: boolean; rotating: boolean } | null>(null);
+  const wasMulti = useRef(false); // a pinch never ends in a swipe, even when fingers lift one by one
+  const suppressClickUntil = useRef(0);
+
+  // A cancelled pan reports no travel, so whatever it was dragging settles back where it started
+  const endPan = (pointer: TrackedPointer, velocity: number, cancelled = false) => {
+    if (!pointer.panning) return;
+    pointer.panning = false;
+    handlersRef.current.onPan?.(cancelled ? 0 : pointer.x - pointer.startX, 'end', velocity);
+  };
+
+  const endMulti = () => {
+    const state = multi.current;
+    if (!state) return;
+    if (state.pinching) handlersRef.current.onPinch?.(1, 'end');
+    if (state.rotating) handlersRef.current.onRotate?.(0, 'end');
+    multi.current = null;
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    const now = performance.now();
+    pointers.current.set(e.pointerId, {
+      x: e.clientX, y: e.clientY, startX: e.clientX, startY: e.clientY, startTime: now,
+      samples: [{ t: now, x: e.clientX, y: e.clientY }],
+      panning: false
+    });
+    if (pointers.current.size === 1) wasMulti.current = false;
+    if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      endPan(a, 0);
+      multi.current = { ...pointerSpan(a, b), pinching: false, rotating: false };
+      wasMulti.current = true;
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const pointer = pointers.current.get(e.pointerId);
+    if (!pointer) return;
+    const now = performance.now();
+    pointer.x = e.clientX;
+    pointer.y = e.clientY;
+    pointer.samples.push({ t: now, x: e.clientX, y: e.clientY });
+    while (pointer.samples.length > 2 && now - pointer.samples[0].t > VELOCITY_WINDOW_MS) pointer.samples.shift();
+
+    // Capture only once the pointer is clearly dragging: capturing on down would retarget a plain tap's
+    // click to the surface instead of the button under it. From here on, leaving the surface keeps tracking.
+    const surface = e.currentTarget as Element;
+    if (!surface.hasPointerCapture(e.pointerId) && Math.hypot(pointer.x - pointer.startX, pointer.y - pointer.startY) >= limitsRef.current.captureDistance) {
+      try { surface.setPointerCapture(e.pointerId); } catch { /* pointer already gone */ }
+    }
+
+    const { onPan } = handlersRef.current;
+    if (onPan && pointers.current.size === 1 && !wasMulti.current) {
+      const dx = pointer.x - pointer.startX;
+      const dy = pointer.y - pointer.startY;
+      const { panThreshold, axisLock } = limitsRef.current;
+      if (!pointer.panning && Math.abs(dx) >= panThreshold && Math.abs(dx) >= Math.abs(dy) * axisLock) {
+        pointer.panning = true;
+        onPan(dx, 'start', 0);
+      }
+      if (pointer.panning) onPan(dx, 'move', 0);
+    }
+
+    const state = multi.current;
+    if (!state || pointers.current.size !== 2) return;
+    const [a, b] = [...pointers.current.values()];
+    const span = pointerSpan(a, b);
+    const scale = state.distance > 0 ? span.distance / state.distance : 1;
+    const degrees = normalizeDegrees(span.angle - state.angle);
+    const { onPinch, onRotate } = handlersRef.current;
+
+    if (!state.pinching && Math.abs(scale - 1) >= limitsRef.current.pinchThreshold) {
+      state.pinching = true;
+      onPinch?.(1, 'start');
+    }
+    if (!state.rotating && Math.abs(degrees) >= limitsRef.current.rotateThreshold) {
+      state.rotating = true;
+      onRotate?.(0, 'start');
+    }
+    if (state.pinching) onPinch?.(scale, 'move');
+    if (state.rotating) onRotate?.(degrees, 'move');
+  };
+
+  const release = (e: React.PointerEvent, cancelled: boolean) => {
+    const pointer = pointers.current.get(e.pointerId);
+    if (!pointer) return;
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) endMulti();
+
+    const { swipeDistance, swipeVelocity, flickDistance, swipeMaxDuration, axisLock } = limitsRef.current;
+
+    // A pan owns the horizontal axis: it ends with its own momentum instead of a swipe
+    if (pointer.panning) {
+      const first = pointer.samples[0];
+      const velocity = cancelled ? 0 : (pointer.x - first.x) / Math.max(1, performance.now() - first.t);
+      if (Math.abs(pointer.x - pointer.startX) >= flickDistance) suppressClickUntil.current = performance.now() + 300;
+      endPan(pointer, velocity, cancelled);
+      return;
+    }
+    if (cancelled || wasMulti.current || !handlersRef.current.onSwipe) return;
+
+    const dx = e.clientX - pointer.startX;
+    const dy = e.clientY - pointer.startY;
+    const duration = performance.now() - pointer.startTime;
+    const first = pointer.samples[0];
+    const elapsed = Math.max(1, performance.now() - first.t);
+    const horizontal = Math.abs(dx) >= Math.abs(dy);
+    const main = horizontal ? dx : dy;
+    const cross = horizontal ? dy : dx;
+    const velocity = Math.abs((horizontal ? e.clientX - first.x : e.clientY - first.y) / elapsed);
+
+    if (duration > swipeMaxDuration || Math.abs(main) < Math.abs(cross) * axisLock) return;
+    const travelled = Math.abs(main) >= swipeDistance;
+    const flicked = velocity >= swipeVelocity && Math.abs(main) >= flickDistance;
+    if (!travelled && !flicked) return;
+
+    suppressClickUntil.current = performance.now() + 300;
+    const direction: SwipeDirection = horizontal ? (dx < 0 ? 'left' : 'right') : (dy < 0 ? 'up' : 'down');
+    handlersRef.current.onSwipe?.(direction, velocity);
+  };
+
+  return {
+    onPointerDown,
+    onPointerMove,
+    onPointerUp: (e: React.PointerEvent) => release(e, false),
+    onPointerCancel: (e: React.PointerEvent) => release(e, true),
+    // Only reached before capture (captured pointers do not leave): a drag that wanders off is dropped, not released
+    onPointerLeave: (e: React.PointerEvent) => release(e, true),
+    onClickCapture: (e: React.MouseEvent) => {
+      if (performance.now() < suppressClickUntil.current) {
+        e.stopPropagation();
+        e.preventDefault();
+      }
+    },
+  };
+};
+
+// --- Narrative (Timeline) ---
+
+// Realities without a script get the original title card: subtitle, title, then description
+const defaultNarrative = (reality: RealityItem): NarrativeBeat[] => [
+  { kind: 'text', at: 0.5, text: reality.subtitle, style: 'whisper' },
+  { kind: 'text', at: 0.8, text: reality.title, style: 'title' },
+  { kind: 'text', at: 1.5, text: reality.description },
+];
+
+const resolveNarrative = (reality: RealityItem) => reality.narrative?.length ? reality.narrative : defaultNarrative(reality);
+
+const narrativeLength = (beats: NarrativeBeat[]) => beats.reduce((end, beat) => {
+  const duration = beat.kind === 'text' || beat.kind === 'camera' ? beat.duration ?? 0 : 0;
+  return Math.max(end, beat.at + duration);
+}, 0);
+
+interface NarrativeCamera {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const easeInOutCubic = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+// Camera pushes chain: each eases from wherever the previous one left the frame
+const cameraAt = (beats: NarrativeBeat[], time: number): NarrativeCamera => {
+  let camera: NarrativeCamera = { zoom: 1, x: 0, y: 0 };
+  for (const beat of beats) {
+    if (beat.kind !== 'camera' || beat.at > time) continue;
+    const t = easeInOutCubic(beat.duration > 0 ? Math.min(1, (time - beat.at) / beat.duration) : 1);
+    camera = {
+      zoom: camera.zoom + (beat.zoom - camera.zoom) * t,
+      x: camera.x + ((beat.x ?? camera.x) - camera.x) * t,
+      y: camera.y + ((beat.y ?? camera.y) - camera.y) * t,
+    };
+  }
+  return camera;
+};
+
+type NarrativeText = Extract<NarrativeBeat, { kind: 'text' }>;
+
+const visibleTextAt = (beats: NarrativeBeat[], time: number) => beats.filter((beat): beat is NarrativeText =>
+  beat.kind === 'text' && beat.at <= time && (beat.duration === undefined || time < beat.at + beat.duration)
+);
+
+type NarrativeStatus = 'playing' | 'paused' | 'choosing' | 'finished';
+type NarrativeChoice = Extract<NarrativeBeat, { kind: 'choice' }>;
+
+// Runs a sequence on a clock. One-shot beats (cues, bursts) go to `onFire` exactly once per pass.
+// The clock itself lives in a ref: `time` only moves (and re-renders the caller) when a text beat
+// enters or leaves or the end is reached; per-frame work such as the camera subscribes through `onFrame`.
+const useNarrativeTimeline = (beats: NarrativeBeat[], running: boolean, onFire: (beat: NarrativeBeat) => void) => {
+  const ordered = useMemo(() => [...beats].sort((a, b) => a.at - b.at), [beats]);
+  const length = useMemo(() => narrativeLength(beats), [beats]);
+  const [time, setSceneTime] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [choice, setChoice] = useState<NarrativeChoice | null>(null);
+  const timeRef = useRef(0);
+  const sceneRef = useRef('');
+  const frameListenersRef = useRef(new Set<(time: number) => void>());
+  const firedRef = useRef(new Set<NarrativeBeat>());
+  const onFireRef = useRef(onFire);
+  onFireRef.current = onFire;
+
+  const setTime = useCallback((next: number) => {
+    timeRef.current = next;
+    frameListenersRef.current.forEach(listener => listener(next));
+    const scene = `${visibleTextAt(ordered, next).map(beat => ordered.indexOf(beat)).join(',')}|${next >= length}`;
+    if (scene === sceneRef.current) return;
+    sceneRef.current = scene;
+    setSceneTime(next);
+  }, [ordered, length]);
+
+  const onFrame = useCallback((listener: (time: number) => void) => {
+    frameListenersRef.current.add(listener);
+    listener(timeRef.current);
+    return () => { frameListenersRef.current.delete(listener); };
+  }, []);
+
+  // Move the clock forward, firing everything passed on the way; stops early at an unanswered choice
+  const advanceTo = useCallback((target: number) => {
+    for (const beat of ordered) {
+      if (beat.at > target) break;
+      if (firedRef.current.has(beat)) continue;
+      firedRef.current.add(beat);
+      if (beat.kind === 'choice') {
+        setTime(beat.at);
+        setChoice(beat);
+        return;
+      }
+      if (beat.kind === 'cue' || beat.kind === 'burst') onFireRef.current(beat);
+    }
+    setTime(Math.min(target, length));
+  }, [ordered, length, setTime]);
+
+  // Everything before the new position counts as played, everything after is re-armed
+  const seek = useCallback((target: number) => {
+    ordered.forEach(beat => {
+      if (beat.at >= target) firedRef.current.delete(beat);
+      else firedRef.current.add(beat);
+    });
+    setTime(target);
+  }, [ordered, setTime]);
+
+  const waiting = !!choice;
+  const finished = !waiting && time >= length;
+
+  useEffect(() => {
+    if (!running || paused || waiting || finished) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const dt = Math.min(0.1, (now - last) / 1000);
+      last = now;
+      advanceTo(timeRef.current + dt);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [running, paused, waiting, finished, advanceTo]);
+
+  // Skip to the next beat (which still fires), or to the end
+  const skip = useCallback(() => {
+    if (waiting) return;
+    const next = ordered.find(beat => beat.at > timeRef.current + 0.001);
+    advanceTo(next ? next.at : length);
+  }, [ordered, length, waiting, advanceTo]);
+
+  const replay = useCallback(() => {
+    firedRef.current.clear();
+    setTime(0);
+    setChoice(null);
+    setPaused(false);
+  }, [setTime]);
+
+  // A new sequence (travelling to another reality) starts from the top
+  useEffect(() => {
+    replay();
+  }, [ordered, replay]);
+
+  const choose = useCallback((option: NarrativeOption) => {
+    setChoice(null);
+    if (option.goto !== undefined) seek(option.goto);
+  }, [seek]);
+
+  const status: NarrativeStatus = waiting ? 'choosing' : finished ? 'finished' : paused ? 'paused' : 'playing';
+
+  return {
+    time,
+    length,
+    status,
+    choice,
+    onFrame,
+    pause: () => setPaused(true),
+    resume: () => setPaused(false),
+    skip,
+    replay,
+    choose,
+  };
+};
+
+// --- Sub-Components ---
+
+// Visually hidden announcer; screen readers read `message` whenever it changes
+const LiveRegion = ({ message }: { message: string }) => (
+  <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">{message}</div>
+);
+
+// --- Particle Renderer (Canvas) ---
+
+type ParticleMotion = 'float-out' | 'spark-rise' | 'atmosphere-leak' | 'magical-flow';
+
+interface Particle {
+  age: number;      // seconds; negative while waiting for its first spawn
+  duration: number; // seconds per cycle
+  size: number;     // px
+  tx: number;       // travel target: px, or a fraction of the field for float-out
+  ty: number;
+  accent: boolean;  // drawn in the accent color instead of the main one
+}
+
+interface ParticleSpawnOptions {
+  motion: ParticleMotion;
+  sizeRange: [number, number];
+  durationScale: number;
+  accentRatio: number;
+}
+
+interface ParticleFrame {
+  dx: number;
+  dy: number;
+  scale: number;
+  alpha: number;
+}
+
+const easeOutQuart = (t: number) => 1 - Math.pow(1 - t, 4);
+const easeOutQuad = (t: number) => 1 - (1 - t) * (1 - t);
+
+// Fade in over the first part of the cycle, fade out over the rest (matches the old keyframes)
+const fadeInOut = (t: number, peakAt: number, peak = 1) => t < peakAt ? (t / peakAt) * peak : peak * (1 - (t - peakAt) / (1 - peakAt));
+
+// Motion styles, ported from the float-out / spark-rise / atmosphere-leak / magical-flow keyframes
+const particleMotions: Record<ParticleMotion, {
+  spawn: (p: Particle) => void;
+  frame: (t: number, p: Particle, width: number, height: number) => ParticleFrame;
+}> = {
+  // Burst from the center out past the edges of the screen
+  'float-out': {
+    spawn: p => {
+      const angle = Math.random() * Math.PI * 2;
+      const distance = 0.8 + Math.random() * 0.5;
+      p.tx = Math.cos(angle) * distance + Math.sin(Date.now() / 1000 + Math.random() * 10) * 0.2;
+      p.ty = Math.sin(angle) * distance;
+      p.duration = 2 + Math.random() * 3;
+    },
+    frame: (t, p, width, height) => {
+      const e = easeOutQuart(t);
+      return { dx: p.tx * width * e, dy: p.ty * height * e, scale: t, alpha: fadeInOut(t, 0.2) };
+    }
+  },
+  // Embers drifting upward and burning out
+  'spark-rise': {
+    spawn: p => {
+      p.tx = (Math.random() - 0.5) * 40;
+      p.ty = -60 - Math.random() * 80;
+      p.duration = 4 + Math.random() * 3;
+    },
+    frame: (t, p) => {
+      const e = easeOutQuad(t);
+      return { dx: p.tx * e, dy: p.ty * e, scale: 1 - t, alpha: fadeInOut(t, 0.2) };
+    }
+  },
+  // Slow dust leaking out in every direction
+  'atmosphere-leak': {
+    spawn: p => {
+      p.tx = (Math.random() - 0.5) * 150;
+      p.ty = (Math.random() - 0.5) * 150;
+      p.duration = 8 + Math.random() * 4;
+    },
+    frame: (t, p) => ({ dx: p.tx * t, dy: p.ty * t, scale: t * 1.5, alpha: fadeInOut(t, 0.2) })
+  },
+  // Magic blooming outward and swelling as it fades
+  'magical-flow': {
+    spawn: p => {
+      const angle = Math.random() * Math.PI * 2;
+      const distance = 50 + Math.random() * 100;
+      p.tx = Math.cos(angle) * distance;
+      p.ty = Math.sin(angle) * distance;
+      p.duration = 2 + Math.random() * 2;
+    },
+    frame: (t, p) => {
+      const e = easeOutQuad(t);
+      const scale = e * 2.5;
+      return { dx: p.tx * scale, dy: p.ty * scale, scale, alpha: fadeInOut(t, 0.4, 0.8) };
+    }
+  },
+};
+
+const spawnParticle = (p: Particle, options: ParticleSpawnOptions, initialDelay: number) => {
+  particleMotions[options.motion].spawn(p);
+  p.duration *= options.durationScale;
+  p.size = options.sizeRange[0] + Math.random() * (options.sizeRange[1] - options.sizeRange[0]);
+  p.accent = Math.random() < options.accentRatio;
+  p.age = -Math.random() * initialDelay;
+};
+
+// Pre-rendered glowing sprites, one per shape + color
+const SPRITE_SIZE = 64;
+const SPRITE_CORE = 20; // px of the sprite taken by the shape itself; the rest is glow
+const spriteCache = new Map<string, HTMLCanvasElement>();
+
+const getParticleSprite = (shape: ParticleShape, color: string) => {
+  const key = `${shape}|${color}`;
+  const cached = spriteCache.get(key);
+  if (cached) return cached;
+  if (spriteCache.size > 64) spriteCache.clear();
+
+  const sprite = document.createElement('canvas');
+  sprite.width = SPRITE_SIZE;
+  sprite.height = SPRITE_SIZE;
+  const ctx = sprite.getContext('2d')!;
+  const c = SPRITE_SIZE / 2;
+  const r = SPRITE_CORE / 2;
+  ctx.fillStyle = color;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 16;
+  ctx.beginPath();
+  if (shape === 'square') {
+    ctx.rect(c - r, c - r, SPRITE_CORE, SPRITE_CORE);
+  } else if (shape === 'diamond') {
+    ctx.moveTo(c, c - r * 1.4);
+    ctx.lineTo(c + r * 1.4, c);
+    ctx.lineTo(c, c + r * 1.4);
+    ctx.lineTo(c - r * 1.4, c);
+  } else if (shape === 'star') {
+    // Same points as the old clip-path polygon
+    const points = [[50, 0], [61, 35], [98, 35], [68, 57], [79, 91], [50, 70], [21, 91], [32, 57], [2, 35], [39, 35]];
+    points.forEach(([x, y], i) => {
+      const px = c - r + (x / 100) * SPRITE_CORE;
+      const py = c - r + (y / 100) * SPRITE_CORE;
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    });
+  } else {
+    ctx.arc(c, c, r, 0, Math.PI * 2);
+  }
+  ctx.closePath();
+  ctx.fill();
+  ctx.fill(); // second pass strengthens the glow
+
+  spriteCache.set(key, sprite);
+  return sprite;
+};
+
+const ParticleField = ({
+  count,
+  color,
+  accentColor,
+  accentRatio = 0,
+  shape = 'circle',
+  motion,
+  durationScale = 1,
+  sizeRange = [2, 6],
+  maxPixelRatio = 2,
+  once = false,
+  className = '',
+}: {
+  count: number;
+  color: string;
+  accentColor?: string;
+  accentRatio?: number;
+  shape?: ParticleShape;
+  motion: ParticleMotion;
+  durationScale?: number;
+  sizeRange?: [number, number];
+  maxPixelRatio?: number; // large, soft fields can render below device resolution
+  once?: boolean; // a single burst: particles are not respawned
+  className?: string;
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Colors and shape can change without resetting the particles mid-flight
+  const lookRef = useRef({ color, accentColor, shape });
+  lookRef.current = { color, accentColor, shape };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || count === 0) return;
+
+    const options: ParticleSpawnOptions = { motion, sizeRange, durationScale, accentRatio };
+    const particles: Particle[] = Array.from({ length: count }, () => {
+      const p: Particle = { age: 0, duration: 1, size: 1, tx: 0, ty: 0, accent: false };
+      spawnParticle(p, options, once ? 0.2 : 2);
+      return p;
+    });
+    const frameFor = particleMotions[motion].frame;
+
+    let width = 0;
+    let height = 0;
+    let dpr = 1;
+    const resize = () => {
+      dpr = Math.min(window.devicePixelRatio || 1, maxPixelRatio);
+      width = canvas.clientWidth;
+      height = canvas.clientHeight;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+
+    let frame = 0;
+    let last = performance.now();
+    const render = (now: number) => {
+      frame = requestAnimationFrame(render);
+      const dt = Math.min(0.1, (now - last) / 1000);
+      last = now;
+      if (document.hidden || width === 0) return;
+
+      const { color: mainColor, accentColor: accent, shape: currentShape } = lookRef.current;
+      const mainSprite = getParticleSprite(currentShape, mainColor);
+      const accentSprite = accent ? getParticleSprite(currentShape, accent) : mainSprite;
+      const cx = width / 2;
+      const cy = height / 2;
+
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      ctx.globalCompositeOperation = 'lighter';
+
+      for (const p of particles) {
+        p.age += dt;
+        if (p.age >= p.duration) {
+          if (once) continue;
+          spawnParticle(p, options, 0);
+        }
+        if (p.age < 0) continue;
+
+        const f = frameFor(p.age / p.duration, p, width, height);
+        const size = p.size * f.scale;
+        if (f.alpha <= 0.01 || size <= 0.1) continue;
+
+        const drawSize = size * (SPRITE_SIZE / SPRITE_CORE);
+        ctx.globalAlpha = Math.min(1, f.alpha);
+        ctx.drawImage(p.accent ? accentSprite : mainSprite, cx + f.dx - drawSize / 2, cy + f.dy - drawSize / 2, drawSize, drawSize);
+      }
+    };
+    frame = requestAnimationFrame(render);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    };
+  }, [count, motion, durationScale, accentRatio, sizeRange[0], sizeRange[1], once]);
+
+  return <canvas ref={canvasRef} className={`pointer-events-none absolute inset-0 h-full w-full ${className}`} />;
+};
+
+const TakingOverParticles = ({ corruption, color, speed = 'normal', shape = 'circle' }: { corruption: number; color: string; speed?: 'fast' | 'normal' | 'slow'; shape?: ParticleShape }) => {
+  const quality = useMotionQuality();
+  const particleCount = quality === 'full' ? 2000 : quality === 'reduced' ? 40 : 0;
+  const durationScale = speed === 'fast' ? 0.2 : speed === 'slow' ? 3.0 : 1.0;
+
+  if (particleCount === 0) return null;
+
+  return (
+    <div className="pointer-events-none absolute inset-0 z-20 overflow-hidden mix-blend-screen">
+      <ParticleField count={particleCount} color={color} shape={shape} motion="float-out" durationScale={durationScale} sizeRange={[2, 6]} />
+    </div>
+  );
+};
+
+type HoverParticleMotion = Exclude<ParticleMotion, 'float-out'>;
+
+// Furthest a hover particle (plus its glow) gets from the card center, in px
+const HOVER_PARTICLE_REACH: Record<HoverParticleMotion, number> = {
+  'spark-rise': 160,
+  'atmosphere-leak': 100,
+  'magical-flow': 400,
+};
+
+// Magical Portal Particles
+const PortalHoverParticles = ({ realityId, color, isHovered }: { realityId: string; color: string; isHovered: boolean }) => {
+  const quality = useMotionQuality();
+  const particleCount = quality === 'full' ? 1000 : quality === 'reduced' ? 50 : 0;
+
+  if (particleCount === 0) return null;
+
+  // Leaking Atmosphere Logic: embers for the dragon, dust for space, magic for everything else
+  const motion: HoverParticleMotion = realityId === 'dragon' ? 'spark-rise' : realityId === 'cosmic' ? 'atmosphere-leak' : 'magical-flow';
+  const sizeRange: [number, number] = realityId === 'dragon' ? [2, 5] : realityId === 'cosmic' ? [1, 3] : [2, 6];
+
+  // Sits outside the card's clipped window: a square centered on the card, just large enough for the motion's reach
+  const reach = HOVER_PARTICLE_REACH[motion];
+  return (
+    <div className={`pointer-events-none absolute z-50 transition-opacity duration-1000 ${isHovered ? 'opacity-100' : 'opacity-40'}`} style={{ inset: `calc(50% - ${reach}px)` }}>
+      <ParticleField 
+        count={particleCount} 
+        color={color} 
+        accentColor={realityId === 'dragon' ? '#FFD700' : undefined} 
+        accentRatio={realityId === 'dragon' ? 0.3 : 0} 
+        motion={motion} 
+        sizeRange={sizeRange} 
+        maxPixelRatio={1}
+        className="blur-[1px]" 
+      />
+    </div>
+  );
+};
+
+
+// --- Atmospheres (Registry) ---
+
+interface AtmosphereLayerProps {
+  params: AtmosphereParams;
+  color: string;    // already resolved from params.color
+  reduced: boolean; // reduced motion quality: fewer elements
+}
+
+// Each atmosphere is self-contained: its layer, the defaults it was authored with, its sound and its CSS animations
+interface AtmosphereModule {
+  defaults: AtmosphereParams;
+  soundscape: Soundscape; // used unless the reality brings its own
+  animations: Record<string, AnimationSpec>; // registered alongside the app's own, so layers use them through anim()
+  Layer: (props: AtmosphereLayerProps) => React.ReactElement;
+}
+
+// Element count after density and motion quality; never drops a layer to nothing
+const atmosphereCount = (full: number, reducedCount: number, { params, reduced }: AtmosphereLayerProps) =>
+  Math.max(1, Math.round((reduced ? reducedCount : full) * params.density));
+
+// Durations and delays (phase offsets) alike scale with the module's speed and the global one
+const atmosphereDuration = (seconds: number, params: AtmosphereParams) => animDuration(seconds / params.speed);
+
+// Stable random placement per element (so re-renders do not reshuffle the sky)
+const useScatter = (count: number) => useMemo(
+  () => Array.from({ length: count }, () => ({ x: Math.random(), y: Math.random(), a: Math.random(), b: Math.random() })),
+  [count]
+);
+
+const SmokeLayer = (props: AtmosphereLayerProps) => {
+  const { params, color } = props;
+  const count = atmosphereCount(3, 1, props);
+  return (
+    <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
+      {Array.from({ length: count }, (_, i) => (
+        <div
+          key={i}
+          className={`absolute -bottom-1/2 left-[-20%] w-[140%] h-[100%] rounded-[100%] blur-[80px] opacity-[0.15] mix-blend-screen ${anim('smoke-drift')}`}
+          style={{
+            background: `radial-gradient(circle at center, ${color}20 0%, transparent 70%)`,
+            animationDelay: atmosphereDuration(i * -7, params),
+            animationDuration: atmosphereDuration(20 + i * 5, params),
+            transformOrigin: 'center bottom'
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const StarsLayer = (props: AtmosphereLayerProps) => {
+  const { params, color } = props;
+  const stars = useScatter(atmosphereCount(50, 20, props));
+  return (
+    <div className="absolute inset-0 z-0 pointer-events-none">
+      {stars.map((star, i) => (
+        <div
+          key={i}
+          className={`absolute rounded-full ${anim('twinkle')}`}
+          style={{
+            left: `${star.x * 100}%`,
+            top: `${star.y * 100}%`,
+            width: `${star.a * 2 + 1}px`,
+            height: `${star.a * 2 + 1}px`,
+            background: color,
+            animationDelay: atmosphereDuration(star.b * 5, params),
+            animationDuration: atmosphereDuration(3, params),
+            opacity: star.b * 0.5
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const GlitchLayer = (props: AtmosphereLayerProps) => {
+  const { params, color } = props;
+  const bars = useScatter(atmosphereCount(6, 2, props));
+  return (
+    <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
+       <div className={`absolute inset-0 bg-gradient-to-r from-purple-900/10 via-transparent to-cyan-900/10 ${anim('neon-pulse')} opacity-50`} style={{ animationDuration: atmosphereDuration(4, params) }} />
+       {bars.map((bar, i) => (
+          <div key={i} 
+               className={`absolute w-full h-[1px] ${anim('glitch-bar')} mix-blend-overlay`}
+               style={{ 
+                 top: `${bar.y * 100}%`,
+                 background: `${color}33`,
+                 animationDelay: atmosphereDuration(bar.a * 3, params),
+                 animationDuration: atmosphereDuration(0.1 + bar.b * 0.3, params)
+               }}
+          />
+       ))}
+       <div className={`absolute inset-0 bg-gradient-to-t from-purple-900/10 to-transparent ${anim('pulse-slow')}`} />
+    </div>
+  );
+};
+
+const LightShaftsLayer = (props: AtmosphereLayerProps) => {
+  const { params, color } = props;
+  const shafts = atmosphereCount(3, 1, props);
+  const fireflies = useScatter(atmosphereCount(12, 4, props));
+  return (
+      <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
+          {Array.from({ length: shafts }, (_, i) => (
+              <div key={i}
+                   className={`absolute -top-20 w-[300px] h-[150%] bg-gradient-to-b from-emerald-100/5 to-transparent blur-[100px] transform rotate-[25deg] ${anim('light-shaft')} mix-blend-overlay`}
+                   style={{
+                       left: `${10 + (i * 105) / shafts}%`,
+                       animationDelay: atmosphereDuration(i * 1.5, params),
+                       animationDuration: atmosphereDuration(12, params),
+                       transformOrigin: 'top center'
+                   }}
+              />
+          ))}
+          {fireflies.map((fly, i) => (
+              <div key={i}
+                   className={`absolute w-1 h-1 rounded-full blur-[1px] ${anim('firefly-burst')}`}
+                   style={{
+                       left: `${fly.x * 100}%`,
+                       top: `${fly.y * 100}%`,
+                       background: color,
+                       animationDelay: atmosphereDuration(fly.a * 8, params),
+                       animationDuration: atmosphereDuration(6 + fly.b * 6, params)
+                   }}
+              />
+          ))}
+      </div>
+  );
+};
+
+const VoidLayer = ({ params, color }: AtmosphereLayerProps) => (
+    <div className="absolute inset-0 z-0 pointer-events-none opacity-10">
+       <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-black" />
+       <div className={`absolute inset-0 ${anim('pulse-slow')}`} style={{ background: `radial-gradient(circle at center, ${color}10 0%, transparent 50%)`, animationDuration: atmosphereDuration(3, params) }} />
+    </div>
+);
+
+const RainLayer = (props: AtmosphereLayerProps) => {
+  const { params, color } = props;
+  const drops = useScatter(atmosphereCount(70, 20, props));
+  return (
+    <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
+      <div className="absolute inset-0 bg-gradient-to-b from-black/30 via-transparent to-black/20" />
+      {drops.map((drop, i) => (
+        <div
+          key={i}
+          className={`absolute -top-[20%] w-px h-[12%] ${anim('rain-fall')}`}
+          style={{
+            left: `${drop.x * 110 - 5}%`,
+            background: `linear-gradient(to bottom, transparent, ${color}66)`,
+            animationDelay: atmosphereDuration(-drop.a * 2, params),
+            animationDuration: atmosphereDuration(0.6 + drop.b * 0.4, params)
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const SnowLayer = (props: AtmosphereLayerProps) => {
+  const { params, color } = props;
+  const flakes = useScatter(atmosphereCount(50, 15, props));
+  return (
+    <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
+      {flakes.map((flake, i) => (
+        <div
+          key={i}
+          className={`absolute top-0 rounded-full blur-[1px] ${anim('snow-fall')}`}
+          style={{
+            left: `${flake.x * 100}%`,
+            width: `${2 + flake.a * 4}px`,
+            height: `${2 + flake.a * 4}px`,
+            background: color,
+            opacity: 0.4 + flake.b * 0.5,
+            animationDelay: atmosphereDuration(-flake.b * 14, params),
+            animationDuration: atmosphereDuration(8 + flake.a * 6, params)
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const CausticsLayer = (props: AtmosphereLayerProps) => {
+  const { params, color } = props;
+  const sheets = atmosphereCount(2, 1, props);
+  return (
+    <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
+      <div className="absolute inset-0" style={{ background: `linear-gradient(to bottom, ${color}18 0%, transparent 40%, #00000066 100%)` }} />
+      {Array.from({ length: sheets }, (_, i) => (
+        <div
+          key={i}
+          className={`absolute inset-[-10%] mix-blend-screen opacity-20 blur-[2px] ${anim('caustics')}`}
+          style={{
+            backgroundImage: `radial-gradient(ellipse 40px 24px at 50% 50%, ${color}66 0%, transparent 70%), radial-gradient(ellipse 30px 50px at 50% 50%, ${color}44 0%, transparent 70%)`,
+            backgroundSize: `${120 + i * 50}px ${90 + i * 40}px, ${160 + i * 30}px ${140 + i * 60}px`,
+            animationDelay: atmosphereDuration(i * -4, params),
+            animationDuration: atmosphereDuration(10 + i * 4, params)
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const AuroraLayer = (props: AtmosphereLayerProps) => {
+  const { params, color } = props;
+  const bands = atmosphereCount(3, 1, props);
+  return (
+    <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
+      {Array.from({ length: bands }, (_, i) => (
+        <div
+          key={i}
+          className={`absolute left-[-25%] w-[150%] h-[55%] blur-[60px] mix-blend-screen ${anim('aurora-wave')}`}
+          style={{
+            top: `${-10 + i * 12}%`,
+            background: `linear-gradient(to bottom, transparent 0%, ${color}55 45%, transparent 100%)`,
+            filter: `hue-rotate(${i * 25}deg)`,
+            animationDelay: atmosphereDuration(i * -5, params),
+            animationDuration: atmosphereDuration(14 + i * 3, params)
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const SmokeAtmosphere = {
+  defaults: { density: 1, speed: 1, color: 'theme' },
+  // Fire: sawtooth drone, rumbling brown noise, ember crackle
+  soundscape: {
+    layers: [
+      { kind: 'tone', frequency: 55, wave: 'sawtooth', gain: 0.3, lfoRate: 0.15, lfoDepth: 0.5 },
+      { kind: 'noise', color: 'brown', filter: 'lowpass', frequency: 300, gain: 0.8, sweepRate: 0.05 },
+      { kind: 'grains', frequency: 1800, spread: 1, density: 6, grainLength: 0.03, gain: 0.15, wave: 'square' },
+    ]
+  },
+  animations: {
+    'smoke-drift': {
+      keyframes: '0% { transform: translateX(0) scale(1); opacity: 0.1; } 50% { transform: translateX(20px) scale(1.2); opacity: 0.2; } 100% { transform: translateX(0) scale(1); opacity: 0.1; }',
+      duration: 20, easing: 'ease-in-out'
+    }
+  },
+  Layer: SmokeLayer
+} satisfies AtmosphereModule;
+
+const StarsAtmosphere = {
+  defaults: { density: 1, speed: 1, color: 'white' },
+  // Space: detuned fifth pad, distant solar wind, slow glass sparkles
+  soundscape: {
+    layers: [
+      { kind: 'tone', frequency: 110, gain: 0.4, lfoRate: 0.07, lfoDepth: 0.6 },
+      { kind: 'tone', frequency: 164.8, gain: 0.25, detune: 7, lfoRate: 0.05 },
+      { kind: 'noise', color: 'pink', filter: 'bandpass', frequency: 1200, q: 0.7, gain: 0.3, sweepRate: 0.03 },
+      { kind: 'grains', frequency: 2093, spread: 1.5, density: 1.5, grainLength: 0.6, gain: 0.12 },
+    ]
+  },
+  animations: {
+    'twinkle': {
+      keyframes: '0%, 100% { opacity: 0.2; transform: scale(1); } 50% { opacity: 0.8; transform: scale(1.5); }',
+      duration: 3, easing: 'ease-in-out'
+    }
+  },
+  Layer: StarsLayer
+} satisfies AtmosphereModule;
+
+const GlitchAtmosphere = {
+  defaults: { density: 1, speed: 1, color: 'particle' },
+  // City: mains hum, buzzing harmonic, hiss, data bleeps
+  soundscape: {
+    layers: [
+      { kind: 'tone', frequency: 60, wave: 'square', gain: 0.15 },
+      { kind: 'tone', frequency: 120, wave: 'sawtooth', gain: 0.1, lfoRate: 4, lfoDepth: 0.3 },
+      { kind: 'noise', color: 'white', filter: 'highpass', frequency: 4000, gain: 0.08 },
+      { kind: 'grains', frequency: 880, spread: 2, density: 4, grainLength: 0.05, gain: 0.1, wave: 'square' },
+    ]
+  },
+  animations: {
+    'glitch-bar': {
+      keyframes: '0% { transform: translateX(-100%); opacity: 0; } 50% { opacity: 1; } 100% { transform: translateX(100%); opacity: 0; }',
+      duration: 2, easing: 'linear'
+    },
+    'neon-pulse': {
+      keyframes: '0%, 100% { opacity: 0.3; filter: hue-rotate(0deg); } 50% { opacity: 0.6; filter: hue-rotate(20deg); }',
+      duration: 4, easing: 'ease-in-out'
+    }
+  },
+  Layer: GlitchLayer
+} satisfies AtmosphereModule;
+
+const LightShaftsAtmosphere = {
+  defaults: { density: 1, speed: 1, color: 'particle' },
+  // Forest: wind through leaves, low earth tone, birdsong chirps
+  soundscape: {
+    layers: [
+      { kind: 'noise', color: 'pink', filter: 'bandpass', frequency: 600, q: 0.5, gain: 0.7, sweepRate: 0.08 },
+      { kind: 'tone', frequency: 98, wave: 'triangle', gain: 0.15, lfoRate: 0.1, lfoDepth: 0.5 },
+      { kind: 'grains', frequency: 3200, spread: 0.5, density: 2, grainLength: 0.08, gain: 0.1 },
+    ]
+  },
+  animations: {
+    'light-shaft': {
+      keyframes: '0%, 100% { opacity: 0.1; transform: rotate(25deg) scaleX(1); } 50% { opacity: 0.25; transform: rotate(25deg) scaleX(1.3); }',
+      duration: 12, easing: 'ease-in-out'
+    },
+    'firefly-burst': {
+      keyframes: '0%, 80% { transform: translate(0,0); opacity: 0; } 85% { opacity: 1; } 90% { transform: translate(10px, -10px); opacity: 1; } 100% { transform: translate(20px, -20px); opacity: 0; }',
+      duration: 8, easing: 'ease-out'
+    }
+  },
+  Layer: LightShaftsLayer
+} satisfies AtmosphereModule;
+
+const VoidAtmosphere = {
+  defaults: { density: 1, speed: 1, color: 'theme' },
+  // The original void hum
+  soundscape: {
+    layers: [
+      { kind: 'tone', frequency: 60, gain: 1 },
+    ]
+  },
+  animations: {}, // pulse-slow is shared
+  Layer: VoidLayer
+} satisfies AtmosphereModule;
+
+const RainAtmosphere = {
+  defaults: { density: 1, speed: 1, color: 'white' },
+  // Rain: hiss on the roof, low drone, drips
+  soundscape: {
+    layers: [
+      { kind: 'noise', color: 'pink', filter: 'highpass', frequency: 800, gain: 0.7, sweepRate: 0.02 },
+      { kind: 'tone', frequency: 70, wave: 'triangle', gain: 0.1, lfoRate: 0.08 },
+      { kind: 'grains', frequency: 2400, spread: 1, density: 8, grainLength: 0.02, gain: 0.08 },
+    ]
+  },
+  animations: {
+    'rain-fall': {
+      keyframes: '0% { transform: translateY(0) rotate(12deg); opacity: 0; } 10% { opacity: 1; } 100% { transform: translateY(140vh) rotate(12deg); opacity: 0.6; }',
+      duration: 0.8, easing: 'linear'
+    }
+  },
+  Layer: RainLayer
+} satisfies AtmosphereModule;
+
+const SnowAtmosphere = {
+  defaults: { density: 1, speed: 1, color: 'white' },
+  // Snow: muffled air, a held high tone, rare chimes
+  soundscape: {
+    layers: [
+      { kind: 'noise', color: 'brown', filter: 'lowpass', frequency: 500, gain: 0.4, sweepRate: 0.03 },
+      { kind: 'tone', frequency: 196, gain: 0.15, lfoRate: 0.04, lfoDepth: 0.4 },
+      { kind: 'grains', frequency: 3520, spread: 0.3, density: 0.8, grainLength: 0.4, gain: 0.06 },
+    ]
+  },
+  animations: {
+    'snow-fall': {
+      keyframes: '0% { transform: translate(0, -10vh); opacity: 0; } 10% { opacity: 1; } 50% { transform: translate(3vw, 50vh); } 100% { transform: translate(-2vw, 110vh); opacity: 0.3; }',
+      duration: 12, easing: 'linear'
+    }
+  },
+  Layer: SnowLayer
+} satisfies AtmosphereModule;
+
+const CausticsAtmosphere = {
+  defaults: { density: 1, speed: 1, color: 'theme' },
+  // Underwater: pressure rumble, swaying tone, bubbles
+  soundscape: {
+    layers: [
+      { kind: 'noise', color: 'brown', filter: 'lowpass', frequency: 250, gain: 0.9, sweepRate: 0.06 },
+      { kind: 'tone', frequency: 82.4, gain: 0.3, lfoRate: 0.12, lfoDepth: 0.6 },
+      { kind: 'grains', frequency: 600, spread: 1.2, density: 3, grainLength: 0.06, gain: 0.1 },
+    ]
+  },
+  animations: {
+    'caustics': {
+      keyframes: '0%, 100% { background-position: 0 0, 0 0; transform: scale(1); } 50% { background-position: 40px 60px, -50px 30px; transform: scale(1.05); }',
+      duration: 10, easing: 'ease-in-out'
+    }
+  },
+  Layer: CausticsLayer
+} satisfies AtmosphereModule;
+
+const AuroraAtmosphere = {
+  defaults: { density: 1, speed: 1, color: 'theme' },
+  // Aurora: slow open fifth, thin high wind
+  soundscape: {
+    layers: [
+      { kind: 'tone', frequency: 130.8, gain: 0.3, lfoRate: 0.05, lfoDepth: 0.5 },
+      { kind: 'tone', frequency: 196, gain: 0.2, detune: 5, lfoRate: 0.03 },
+      { kind: 'noise', color: 'pink', filter: 'bandpass', frequency: 2000, q: 0.5, gain: 0.15, sweepRate: 0.02 },
+    ]
+  },
+  animations: {
+    'aurora-wave': {
+      keyframes: '0%, 100% { transform: translateX(-5%) skewX(-12deg) scaleY(1); opacity: 0.35; } 50% { transform: translateX(5%) skewX(8deg) scaleY(1.2); opacity: 0.6; }',
+      duration: 14, easing: 'ease-in-out'
+    }
+  },
+  Layer: AuroraLayer
+} satisfies AtmosphereModule;
+
+// Adding an atmosphere: write a module (layer, defaults, soundscape, animations) and register it here
+const ATMOSPHERES = {
+  smoke: SmokeAtmosphere,
+  stars: StarsAtmosphere,
+  glitch: GlitchAtmosphere,
+  light_shafts: LightShaftsAtmosphere,
+  void: VoidAtmosphere,
+  rain: RainAtmosphere,
+  snow: SnowAtmosphere,
+  caustics: CausticsAtmosphere,
+  aurora: AuroraAtmosphere,
+} satisfies Record<string, AtmosphereModule>;
+
+const ATMOSPHERE_TYPES = Object.keys(ATMOSPHERES) as AtmosphereType[];
+
+type AtmosphereAnimationName = { [K in AtmosphereType]: keyof (typeof ATMOSPHERES)[K]['animations'] }[AtmosphereType];
+
+const resolveAtmosphereColor = (source: AtmosphereColorSource, theme: string, particle: string) =>
+  source === 'white' ? '#FFFFFF' : source === 'particle' ? particle : theme;
+
+const DynamicAtmosphere = ({
+  atmosphereType,
+  color,
+  accent = color,
+  params: overrides
+}: {
+  atmosphereType: string;
+  color: string;   // the reality's themeColor
+  accent?: string; // the reality's particleColor
+  params?: Partial<AtmosphereParams>;
+}) => {
+  const quality = useMotionQuality();
+  
+  // Minimal motion: a still glow, whatever the atmosphere
+  if (quality === 'minimal') {
+    return (
+      <div className="absolute inset-0 z-0 pointer-events-none opacity-20">
+         <div className="absolute inset-0" style={{ background: `radial-gradient(circle at center, ${color}30 0%, transparent 60%)` }} />
+      </div>
+    );
+  }
+
+  const { defaults, Layer } = ATMOSPHERES[atmosphereType as AtmosphereType] ?? ATMOSPHERES.void;
+  const params = { ...defaults, ...overrides };
+  return <Layer params={params} color={resolveAtmosphereColor(params.color, color, accent)} reduced={quality === 'reduced'} />;
+};
+
+// The blurred plate behind the Gateway
+const BackdropImage = ({ reality }: { reality: RealityItem }) => {
+  const asset = useAsset(reality.bgImage);
+  return (
+    <div className="absolute inset-0 bg-cover bg-center opacity-20 blur-2xl mix-blend-screen"
+      style={{ backgroundImage: realityBackground(asset, reality.themeColor) }} />
+  );
+};
+
+// A neighbouring reality at the edge of the Gateway carousel; lighter than a full CinematicCard
+const RealityPeek = ({ reality, onSelect }: { reality: RealityItem; onSelect: () => void }) => {
+  const asset = useAsset(reality.bgImage);
+  return (
+    <button
+      type="button"
+      tabIndex={-1}
+      aria-label={`Show ${reality.title}`}
+      className="relative block w-[75vw] max-w-[360px] aspect-[4/5] overflow-hidden rounded-[3rem] border border-white/10 bg-black bg-cover bg-center outline-none"
+      style={{ backgroundImage: realityBackground(asset, reality.themeColor), boxShadow: `0 20px 60px -20px ${reality.themeColor}80` }}
+      onClick={onSelect}
+    >
+      <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-black/40"></div>
+      <div className="absolute inset-x-0 bottom-8 flex flex-col items-center gap-1 text-center px-6">
+        <span className="font-rajdhani text-[9px] tracking-[0.4em] text-white/50 uppercase">{reality.subtitle}</span>
+        <span className="font-cinzel text-xl tracking-widest text-white/80">{reality.title}</span>
+      </div>
+    </button>
+  );
+};
+
+const ScannerDimension = ({ active, isScanning, camera, capture }: { active: boolean; isScanning: boolean; camera: CameraFeed; capture: ScanCapture | null }) => {
+  const isLive = camera.status === 'live';
+  const statusLabel = camera.status === 'starting' ? 'CONNECTING OPTICS...'
+    : camera.status === 'denied' ? 'CAMERA ACCESS DENIED'
+    : camera.status === 'unavailable' ? 'NO CAMERA SIGNAL'
+    : null;
+
+  return (
+    <div 
+      role="region" aria-label="Scanner" data-dimension="scanner" tabIndex={-1} inert={!active}
+      style={pausedAnimations(!active)}
+      className={`fixed inset-0 z-40 flex flex-col bg-black outline-none transition-all duration-500 ease-in-out ${active ? 'opacity-100 scale-100 blur-0' : 'opacity-0 scale-95 blur-md pointer-events-none'}`}
+    >
+       {/* Camera Feed - Raw World */}
+       <video
+            ref={camera.videoRef}
+            className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-500 ${isLive ? 'opacity-100' : 'opacity-0'}`}
+            style={{ filter: 'contrast(1.1) saturate(1.1)' }}
+            autoPlay
+            muted
+            playsInline
+       />
+
+       {/* Placeholder when the camera is unavailable */}
+       {!isLive && (
+          <img
+            ref={camera.fallbackRef}
+            src={CAMERA_FALLBACK_IMAGE}
+            crossOrigin="anonymous"
+            alt=""
+            className="absolute inset-0 w-full h-full object-cover"
+            style={{ filter: 'contrast(1.1) saturate(1.1)' }}
+          />
+       )}
+
+       {/* Frozen Frame - shown while the capture is being analysed */}
+       {capture && (
+          <img
+            src={capture.dataUrl}
+            alt=""
+            className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-300 ${isScanning ? 'opacity-100' : 'opacity-0'}`}
+          />
+       )}
+
+       {/* Shutter Flash */}
+       {isScanning && <div className={`absolute inset-0 bg-white pointer-events-none ${anim('shutter-flash')}`} />}
+            
+       {/* Minimalist Viewfinder UI */}
+       <div className="absolute inset-0 z-10">
+          {statusLabel && (
+             <div className="absolute top-[calc(3rem+env(safe-area-inset-top))] left-1/2 -translate-x-1/2 px-3 py-1 rounded-full bg-black/50 border border-white/10 backdrop-blur-md">
+                <span className="font-rajdhani text-[10px] tracking-[0.3em] text-white/60">{statusLabel}</span>
+             </div>
+          )}
+
+          {/* Center Reticle - Pure Focus */}
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none">
+             <div className={`relative w-24 h-24 transition-all duration-300 ${isScanning ? 'scale-90' : 'scale-100'}`}>
+                {/* Central Focus Ring */}
+                <div className={`absolute inset-0 rounded-full border border-white/40 ${isScanning ? 'border-red-400 animate-pulse border-2' : 'border-white/20'}`}></div>
+                
+                {/* Center Dot */}
+                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-1.5 h-1.5 bg-white/80 rounded-full shadow-[0_0_5px_white]"></div>
+             </div>
+          </div>
+
+          {/* Last Capture Thumbnail */}
+          {capture && !isScanning && (
+             <div className={`absolute bottom-[calc(9rem+env(safe-area-inset-bottom))] right-6 w-14 h-14 rounded-full overflow-hidden border border-white/40 shadow-[0_0_20px_rgba(255,255,255,0.2)] ${anim('fade-in-slow')}`}>
+                <img src={capture.dataUrl} alt="Last capture" className="w-full h-full object-cover" />
+             </div>
+          )}
+       </div>
+    </div>
+  );
+}
+
+const VaultDimension = ({ 
+  active, 
+  memories, 
+  onSelectReality, 
+  onUnlock,
+  focusedId = null,
+  isAvailable = () => true
+}: { 
+  active: boolean; 
+  memories: MemoryRecord[]; 
+  onSelectReality: (id: string) => void;
+  onUnlock: (lock: LockedMemory) => void;
+  focusedId?: string | null;
+  isAvailable?: (url: string) => boolean; // false for images that cannot load offline
+}) => {
+  const nervous = useNervousSystem();
+  const analytics = useAnalytics();
+  const [headerOpacity, setHeaderOpacity] = useState(1);
+  const [revealingId, setRevealingId] = useState<string | null>(null);
+  const [keyboardIndex, setKeyboardIndex] = useState(0);
+  const [helixZoom, setHelixZoom] = useState(1);
+  const [helixSpin, setHelixSpin] = useState(0); // radians added to every strand's twist
+  const gestureBase = useRef({ zoom: 1, spin: 0 });
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Pinch to zoom the helix, two-finger rotate to spin it
+  const helixGestures = useGestures({
+    onPinch: (scale, phase) => {
+      if (phase === 'start') gestureBase.current.zoom = helixZoom;
+      else if (phase === 'move') setHelixZoom(Math.max(0.6, Math.min(1.8, gestureBase.current.zoom * scale)));
+    },
+    onRotate: (degrees, phase) => {
+      if (phase === 'start') {
+        gestureBase.current.spin = helixSpin;
+        nervous.triggerHaptic('light');
+      } else if (phase === 'move') {
+        setHelixSpin(gestureBase.current.spin + degrees * Math.PI / 180);
+      }
+    }
+  });
+
+  // Sealed memories that have not been opened yet, with their live progress
+  const pendingLocks = useMemo(() => {
+    const states = new Map<string, { lock: LockedMemory; state: UnlockProgress }>();
+    lockedMemories
+      .filter(lock => !memories.some(m => m.id === lock.reality.id))
+      .forEach(lock => states.set(lock.reality.id, { lock, state: evaluateUnlock(lock.condition, memories) }));
+    return states;
+  }, [memories]);
+
+  // Deep links (#/vault/:id) bring their memory into view
+  useEffect(() => {
+    if (!active || !focusedId) return;
+    const node = scrollRef.current?.querySelector(`[data-memory-id="${CSS.escape(focusedId)}"]`);
+    node?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [active, focusedId]);
+
+  const handleLockedClick = (id: string) => {
+    const entry = pendingLocks.get(id);
+    if (!entry || revealingId) return;
+    if (!entry.state.met) {
+      nervous.playThud();
+      return;
+    }
+    nervous.playMemoryUnlock();
+    nervous.triggerHaptic('heavy');
+    setRevealingId(id);
+    setTimeout(() => {
+      setRevealingId(null);
+      onUnlock(entry.lock);
+      analytics.emit({ type: 'unlock', realityId: id });
+      analytics.emit({ type: 'select', realityId: id, source: 'vault' });
+      onSelectReality(id);
+    }, 1600);
+  };
+  
+  const activateItem = (id: string, isLocked: boolean, isOffline = false) => {
+    if (isLocked) {
+      handleLockedClick(id);
+    } else if (isOffline) {
+      nervous.playThud();
+    } else {
+      nervous.playMemoryUnlock();
+      analytics.emit({ type: 'select', realityId: id, source: 'vault' });
+      onSelectReality(id);
+    }
+  };
+
+  // Arrow keys walk the helix in order; focus follows (and scrolls) the orb
+  const handleHelixKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.key === 'ArrowDown' || e.key === 'ArrowRight' ? 1 : e.key === 'ArrowUp' || e.key === 'ArrowLeft' ? -1 : 0;
+    const target = e.key === 'Home' ? 0 : e.key === 'End' ? vaultItems.length - 1 : keyboardIndex + step;
+    if (!step && e.key !== 'Home' && e.key !== 'End') return;
+    e.preventDefault();
+    const next = Math.max(0, Math.min(vaultItems.length - 1, target));
+    setKeyboardIndex(next);
+    scrollRef.current?.querySelectorAll<HTMLElement>('[data-memory-id]')[next]?.focus();
+    nervous.triggerHaptic('light');
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const scrollTop = e.currentTarget.scrollTop;
+    const newOpacity = Math.max(0, 1 - scrollTop / 200);
+    setHeaderOpacity(newOpacity);
+  };
+  
+  const vaultItems = useMemo(() => {
+      const baseItems = [
+        ...memories.map(m => ({ ...m.reality, visitCount: m.visitCount })),
+        ...[...pendingLocks.values()].map(({ lock }) => ({ ...lock.reality, title: 'Locked Memory', subtitle: 'Encrypted', visitCount: 0 }))
+      ];
+      
+      // DNA Double Helix Layout
+      return baseItems.map((item, i) => {
+        const strand = i % 2 === 0 ? 'A' : 'B'; // Alternate strands
+        const verticalSpacing = 110 * helixZoom; // Spacing
+        const amplitude = 90 * helixZoom; // Width of the helix
+        const frequency = 0.4; // Speed of twist
+        
+        // Phase shift: Strand B is 180 degrees (PI) offset from Strand A
+        const phaseOffset = strand === 'A' ? 0 : Math.PI;
+        const angle = (i * frequency) + phaseOffset + helixSpin;
+        
+        // X Position: Sine wave
+        const xOffset = Math.sin(angle) * amplitude;
+        
+        // Z Depth (Scale/Opacity/Index): Cosine wave (90 deg offset from Sine)
+        // Items 'in front' are larger/brighter
+        const depth = Math.cos(angle);
+        const zScale = (0.6 + ((depth + 1) / 2) * 0.5) * helixZoom; // Scale range 0.6 to 1.1
+        const zIndex = Math.floor(zScale * 100);
+        const opacity = 0.4 + ((depth + 1) / 2) * 0.6; // Opacity range 0.4 to 1.0
 
         return {
           ...item,
@@ -597,13 +4046,30 @@ const VaultDimension = ({ active, onSelectReality }: { active: boolean; onSelect
           strand: strand
         };
       });
-  }, []);
+  }, [memories, pendingLocks, helixZoom, helixSpin]);
+
+  // Reality links drawn between helix nodes; links into sealed memories stay faint until opened
+  const connections = useMemo(() => {
+    const nodes = new Map<string, typeof vaultItems[number]>(vaultItems.map(item => [item.id, item]));
+    return memories.flatMap(m => (m.reality.links ?? []).flatMap(link => {
+      const from = nodes.get(m.id);
+      const to = nodes.get(link.to);
+      if (!from || !to || from === to) return [];
+      return [{ id: `${from.id}->${to.id}`, from, to, color: m.reality.themeColor, sealed: pendingLocks.has(to.id) }];
+    }));
+  }, [vaultItems, memories, pendingLocks]);
+
+  // Only one orb is in the tab order; arrows move between the rest
+  const tabbableIndex = Math.min(keyboardIndex, vaultItems.length - 1);
   
   return (
     <div 
         ref={scrollRef}
         onScroll={handleScroll}
-        className={`fixed inset-0 z-40 overflow-y-auto no-scrollbar transition-all duration-700 cubic-bezier(0.25, 1, 0.5, 1) ${active ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+        role="region" aria-label="Vault" data-dimension="vault" tabIndex={-1} inert={!active}
+        {...helixGestures}
+        style={{ touchAction: 'pan-y', ...pausedAnimations(!active) }}
+        className={`fixed inset-0 z-40 overflow-y-auto no-scrollbar outline-none transition-all duration-700 cubic-bezier(0.25, 1, 0.5, 1) ${active ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
     >
        <div className="fixed inset-0 bg-gradient-to-b from-black/80 via-black/20 to-black/80 pointer-events-none"></div>
 
@@ -611,62 +4077,132 @@ const VaultDimension = ({ active, onSelectReality }: { active: boolean; onSelect
             className="fixed top-0 left-0 right-0 z-50 text-center pt-[calc(3rem+env(safe-area-inset-top))] pb-12 bg-gradient-to-b from-black via-black/90 to-transparent pointer-events-none transition-opacity duration-300"
             style={{ opacity: headerOpacity }}
         >
-          <h1 className="font-cinzel text-3xl text-white drop-shadow-[0_0_25px_rgba(189,0,255,0.6)] tracking-[0.2em]">MEMORY HELIX</h1>
+          <h1 className="font-cinzel text-3xl text-theme-text tracking-[0.2em]" style={{ filter: 'drop-shadow(0 0 25px color-mix(in srgb, var(--theme-glow) 60%, transparent))' }}>MEMORY HELIX</h1>
+          <button
+            className="pointer-events-auto mt-4 px-3 py-1 rounded-full border border-white/10 bg-black/40 backdrop-blur-md font-rajdhani text-[9px] tracking-[0.3em] text-white/50 hover:text-white hover:border-white/40 transition-colors"
+            onClick={() => {
+              nervous.playClick();
+              downloadRealityFile(memories.map(m => m.reality), 'memory-helix');
+            }}
+          >
+            EXPORT ALL
+          </button>
        </div>
 
        <div className="relative min-h-[400vh] w-full px-4 pt-[calc(10rem+env(safe-area-inset-top))] pb-[calc(12rem+env(safe-area-inset-bottom))]">
-           <div className="relative w-full mx-auto max-w-lg perspective-1000" style={{ height: `${vaultItems.length * 110 + 200}px` }}>
+           <div 
+             role="list" aria-label="Memory helix" onKeyDown={handleHelixKeyDown}
+             className="relative w-full mx-auto max-w-lg perspective-1000" style={{ height: `${vaultItems.length * 110 * helixZoom + 200}px` }}
+           >
               {/* DNA Central Axis - Optional, adds structure */}
               <div className="absolute top-0 bottom-0 left-1/2 w-[2px] bg-gradient-to-b from-transparent via-cyan-500/20 to-transparent -translate-x-1/2 blur-[2px]"></div>
 
+              {/* Reality Links (node centers: left% across, top + half of the w-40 orb down) */}
+              <svg className="absolute inset-0 h-full w-full overflow-visible pointer-events-none" aria-hidden="true">
+                 {connections.map(({ id, from, to, color, sealed }) => (
+                    <g key={id} opacity={sealed ? 0.15 : 0.5}>
+                       <line
+                          x1={`${from.left}%`} y1={from.top + 80} x2={`${to.left}%`} y2={to.top + 80}
+                          stroke={color} strokeWidth={1} strokeDasharray={sealed ? '2 6' : '6 6'}
+                          className={anim('link-flow')}
+                       />
+                       <circle cx={`${to.left}%`} cy={to.top + 80} r={3} fill={color} />
+                    </g>
+                 ))}
+              </svg>
+
               {vaultItems.map((item, i) => {
-                 const isLocked = item.id.startsWith('locked');
+                 const lockState = pendingLocks.get(item.id)?.state;
+                 const isLocked = !!lockState;
+                 const isRevealing = revealingId === item.id;
+                 const isOffline = !isLocked && !isAvailable(item.bgImage);
                  return (
-                   <React.Fragment key={i}>
+                   <React.Fragment key={item.id}>
                        <div 
-                          className="absolute w-40 aspect-square group cursor-pointer animate-float-slow filter drop-shadow-2xl transition-all duration-700 hover:scale-110 hover:z-[200] hover:brightness-125"
+                          role="listitem"
+                          className={`absolute w-40 aspect-square group filter drop-shadow-2xl transition-all duration-700 hover:scale-110 hover:z-[200] hover:brightness-125 has-[:focus-visible]:scale-110 has-[:focus-visible]:brightness-125 ${isRevealing ? anim('memory-reveal') : anim('float-slow')}`}
                           style={{ 
                               left: `calc(${item.left}% - 5rem)`, // Center the 10rem (w-40) item
                               top: `${item.top}px`,
                               transform: `scale(${item.scale}) rotate(${item.rotation}deg)`,
                               zIndex: item.zIndex,
                               opacity: item.opacity,
-                              animationDelay: `${item.delay}s` 
+                              animationDelay: animDuration(item.delay)
                           }}
                           onMouseEnter={() => nervous.triggerHaptic('light')}
-                          onClick={() => {
-                            if (isLocked) {
-                              nervous.playThud();
-                            } else {
-                              nervous.playMemoryUnlock();
-                              onSelectReality(item.id.replace(/-dup\d?$/, '')); 
-                            }
-                          }}
                        >
+                        <button
+                          type="button"
+                          data-memory-id={item.id}
+                          tabIndex={i === tabbableIndex ? 0 : -1}
+                          aria-label={isLocked
+                            ? `Sealed memory. ${lockState.met ? 'Ready to open' : lockState.hint}`
+                            : `${item.title}${item.visitCount > 0 ? `, ${item.visitCount} ${item.visitCount === 1 ? 'visit' : 'visits'}` : ''}${isOffline ? ', unavailable offline' : ''}`}
+                          aria-roledescription="memory"
+                          onFocus={() => setKeyboardIndex(i)}
+                          onClick={() => activateItem(item.id, isLocked, isOffline)}
+                          className="absolute inset-0 cursor-pointer outline-none"
+                        >
+                          <div className="absolute -inset-3 rounded-full border border-white/70 opacity-0 group-has-[:focus-visible]:opacity-100 transition-opacity pointer-events-none"></div>
+                          {focusedId === item.id && (
+                             <div className={`absolute -inset-3 rounded-full border border-white/60 shadow-[0_0_40px_rgba(255,255,255,0.3)] ${anim('pulse-slow')} pointer-events-none`}></div>
+                          )}
                           <div 
                             className={`absolute inset-0 backdrop-blur-md border transition-all duration-700 bg-cover bg-center rounded-full
-                              ${isLocked 
-                                ? 'bg-white/5 border-white/5 grayscale opacity-30 shadow-none' 
-                                : 'bg-white/5 border-white/20 hover:border-white/60 shadow-[0_0_40px_rgba(255,255,255,0.05)] hover:shadow-[0_0_60px_rgba(255,255,255,0.2)]'}`}
+                              ${isLocked && !isRevealing
+                                ? `bg-white/5 grayscale shadow-none ${lockState.met ? `border-white/40 opacity-70 ${anim('pulse-slow')}` : 'border-white/5 opacity-30'}` 
+                                : isOffline
+                                  ? 'bg-white/5 border-white/10 grayscale opacity-40 shadow-none'
+                                  : 'bg-white/5 border-white/20 hover:border-white/60 shadow-[0_0_40px_rgba(255,255,255,0.05)] hover:shadow-[0_0_60px_rgba(255,255,255,0.2)]'}`}
                             style={{ 
-                              backgroundImage: isLocked ? 'none' : `url(${item.bgImage})`,
+                              backgroundImage: isLocked && !isRevealing ? 'none' : `url("${item.bgImage}")`,
                               // Diamond/Crystal shape or Organic Orb
-                              borderRadius: isLocked ? '50%' : '40% 60% 50% 50% / 50% 50% 60% 40%', 
+                              borderRadius: isLocked && !isRevealing ? '50%' : '40% 60% 50% 50% / 50% 50% 60% 40%', 
                             }}
                           >
                              <div className="absolute inset-0 bg-gradient-to-tr from-white/10 via-transparent to-black/60 pointer-events-none rounded-[inherit]"></div>
+                             {isOffline && (
+                               <span className="absolute top-3 right-3 material-symbols-outlined text-base text-white/60 z-20 pointer-events-none" aria-hidden="true">cloud_off</span>
+                             )}
                              <div className="absolute inset-0 flex flex-col items-center justify-center z-10 p-4 text-center">
-                                {isLocked ? (
+                                {isLocked && !isRevealing ? (
                                    <div className="flex flex-col items-center justify-center h-full">
-                                      <span className="material-symbols-outlined text-3xl text-white/10 mb-2">lock</span>
+                                      <span className={`material-symbols-outlined text-3xl mb-2 ${lockState.met ? 'text-white/70' : 'text-white/10'}`}>{lockState.met ? 'lock_open' : 'lock'}</span>
+                                      <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-500 flex flex-col items-center gap-1">
+                                         <span className="font-rajdhani text-[8px] tracking-[0.2em] text-white/70 uppercase">{lockState.met ? 'Ready to open' : lockState.hint}</span>
+                                         <div className="h-[2px] w-16 bg-white/10 rounded-full overflow-hidden">
+                                            <div className="h-full bg-white/70" style={{ width: `${lockState.progress * 100}%` }}></div>
+                                         </div>
+                                      </div>
                                    </div>
                                 ) : (
-                                   <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-500 transform scale-90 group-hover:scale-100">
+                                   <div className="flex flex-col items-center gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-500 transform scale-90 group-hover:scale-100">
                                       <span className="font-rajdhani text-[9px] font-bold text-white/90 tracking-widest uppercase bg-black/40 px-3 py-1 rounded-full backdrop-blur-md shadow-lg">{item.title}</span>
+                                      {item.visitCount > 0 && (
+                                         <span className="font-rajdhani text-[7px] tracking-[0.3em] text-white/60 uppercase">{item.visitCount} {item.visitCount === 1 ? 'visit' : 'visits'}</span>
+                                      )}
                                    </div>
                                 )}
                              </div>
                           </div>
+                        </button>
+                        {/* A sibling of the orb: buttons cannot nest */}
+                        {!(isLocked && !isRevealing) && (
+                          <button
+                            type="button"
+                            className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 material-symbols-outlined text-sm text-white/60 hover:text-white focus-visible:text-white bg-black/40 rounded-full p-1 backdrop-blur-md opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-500"
+                            title="Export"
+                            aria-label={`Export ${item.title}`}
+                            tabIndex={i === tabbableIndex ? 0 : -1}
+                            onClick={() => {
+                              nervous.playClick();
+                              const memory = memories.find(m => m.id === item.id);
+                              if (memory) downloadRealityFile([memory.reality], memory.reality.title);
+                            }}
+                          >
+                            download
+                          </button>
+                        )}
                        </div>
                    </React.Fragment>
                  );
@@ -687,85 +4223,123 @@ const CinematicCard = ({
   onWarp: () => void;
 }) => {
   const [isHovered, setIsHovered] = useState(false);
-  const [tilt, setTilt] = useState({ x: 0, y: 0 });
+  const cardRef = useRef<HTMLDivElement | null>(null);
+  const hoveredRef = useRef(false);
+  const sensorTiltRef = useRef<OrientationTilt | null>(null);
   const nervous = useNervousSystem();
+  const quality = useMotionQuality();
+  const asset = useAsset(reality.bgImage);
+  const spinning = quality === 'full';
+  const still = quality === 'minimal';
+  // Tilt goes straight into CSS variables on the card, so pointer moves and sensor readings skip React
+  const applyTilt = (x: number, y: number) => {
+    cardRef.current?.style.setProperty('--tilt-x', `${x}deg`);
+    cardRef.current?.style.setProperty('--tilt-y', `${y}deg`);
+  };
+  const settleTilt = () => {
+    const sensor = sensorTiltRef.current;
+    applyTilt(sensor ? sensor.x * 12 : 0, sensor ? sensor.y * 12 : 0);
+  };
+
+  // Phones tilt the card from the gyroscope; a finger or mouse on the card takes over
+  useOrientationTiltListener(tilt => {
+    sensorTiltRef.current = tilt;
+    if (!hoveredRef.current) settleTilt();
+  });
+
+  const hover = () => {
+    hoveredRef.current = true;
+    setIsHovered(true);
+  };
   
   const updateTilt = (clientX: number, clientY: number, currentTarget: HTMLElement) => {
     const card = currentTarget.getBoundingClientRect();
     const x = (clientX - card.left - card.width / 2) / 20;
     const y = (clientY - card.top - card.height / 2) / 20;
-    setTilt({ x, y });
-    setIsHovered(true);
+    hover();
+    applyTilt(x, y);
+    cardRef.current?.style.setProperty('--pointer-x', `${x}`);
+    cardRef.current?.style.setProperty('--pointer-y', `${y}`);
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!e.isPrimary) return;
     updateTilt(e.clientX, e.clientY, e.currentTarget as HTMLElement);
   };
 
-  const handleTouchMove = (e: React.TouchEvent) => {
-    if (e.touches.length > 0) {
-      updateTilt(e.touches[0].clientX, e.touches[0].clientY, e.currentTarget as HTMLElement);
-    }
-  };
-
   const handleReset = () => {
+      hoveredRef.current = false;
       setIsHovered(false);
-      setTilt({ x: 0, y: 0 }); 
+      settleTilt();
+      cardRef.current?.style.removeProperty('--pointer-x');
+      cardRef.current?.style.removeProperty('--pointer-y');
   };
 
   return (
     <div className="relative flex items-center justify-center perspective-1000">
       <div 
-        className="relative w-[75vw] max-w-[360px] cursor-pointer group touch-action-none transition-transform duration-200 ease-out"
+        ref={cardRef}
+        role="button"
+        tabIndex={0}
+        aria-label={`Warp into ${reality.title}, ${reality.subtitle}`}
+        data-dimension="gateway"
+        className="relative w-[75vw] max-w-[360px] cursor-pointer group touch-action-none outline-none transition-transform duration-200 ease-out"
         onClick={() => { onWarp(); nervous.playThud(); nervous.triggerHaptic('heavy'); }}
-        onMouseMove={handleMouseMove}
-        onMouseLeave={handleReset}
-        onTouchStart={() => { setIsHovered(true); nervous.triggerHaptic('light'); }}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleReset}
+        onKeyDown={(e: React.KeyboardEvent) => {
+          if (e.key !== 'Enter' && e.key !== ' ') return;
+          e.preventDefault();
+          onWarp(); nervous.playThud(); nervous.triggerHaptic('heavy');
+        }}
+        onFocus={hover}
+        onBlur={handleReset}
+        onPointerMove={handlePointerMove}
+        onPointerLeave={handleReset}
+        onPointerDown={(e: React.PointerEvent) => { if (e.pointerType !== 'mouse') { hover(); nervous.triggerHaptic('light'); } }}
+        onPointerUp={(e: React.PointerEvent) => { if (e.pointerType !== 'mouse') handleReset(); }}
+        onPointerCancel={handleReset}
         style={{ 
             transform: `
-                rotateX(${-tilt.y}deg) 
-                rotateY(${tilt.x}deg) 
+                rotateX(calc(var(--tilt-y, 0deg) * -1)) 
+                rotateY(var(--tilt-x, 0deg)) 
                 rotate(${corruption * 2}deg)
                 scale(${isHovered ? 1.05 : 1})
             `,
             transformStyle: 'preserve-3d'
         }}
       >
-        <div className="animate-portal-drift">
+        <div className={still ? '' : anim('portal-drift')}>
             <div 
-              className="absolute inset-[-60px] -z-20 rounded-[40%] blur-[60px] animate-portal-pulse-glow transition-colors duration-700"
+              className={`absolute inset-[-60px] -z-20 rounded-[40%] blur-[60px] transition-colors duration-700 ${still ? 'opacity-50' : anim('portal-pulse-glow')}`}
               style={{ backgroundColor: reality.themeColor }}
             ></div>
 
             {/* Liquid Energy Shell Layers - Hyper-Reality Upgrade */}
             <div 
-              className="absolute -inset-[40px] z-0 animate-liquid-border transition-all duration-700 opacity-60 mix-blend-color-dodge blur-xl"
+              className={`absolute -inset-[40px] z-0 ${anim('liquid-border')} transition-all duration-700 opacity-60 mix-blend-color-dodge blur-xl`}
               style={{
                  background: `conic-gradient(from 0deg, ${reality.themeColor}, transparent, ${reality.particleColor}, transparent, ${reality.themeColor})`,
-                 animationDuration: '10s'
+                 animationDuration: animDuration(10)
               }}
             />
             <div 
-              className="absolute -inset-[20px] z-0 animate-liquid-border transition-all duration-500 opacity-80 mix-blend-screen blur-md"
+              className={`absolute -inset-[20px] z-0 ${anim('liquid-border')} transition-all duration-500 opacity-80 mix-blend-screen blur-md`}
               style={{
                  background: `radial-gradient(circle at 50% 0%, ${reality.particleColor}, transparent 70%)`,
-                 animationDuration: '7s',
+                 animationDuration: animDuration(7),
                  animationDirection: 'reverse'
               }}
             />
              <div 
-              className="absolute -inset-[5px] z-0 animate-liquid-border transition-all duration-300 opacity-100 mix-blend-overlay blur-[2px]"
+              className={`absolute -inset-[5px] z-0 ${anim('liquid-border')} transition-all duration-300 opacity-100 mix-blend-overlay blur-[2px]`}
               style={{
                  border: `2px solid ${reality.themeColor}`,
                  boxShadow: `0 0 20px ${reality.themeColor}, inset 0 0 20px ${reality.themeColor}`,
-                 animationDuration: '5s'
+                 animationDuration: animDuration(5)
               }}
             />
 
             {/* Main Portal Window - CINEMATIC FLUID VORTEX */}
-            <div className="relative z-10 aspect-[4/5] w-full overflow-hidden border-t border-l border-white/20 bg-black/95 backdrop-blur-xl shadow-2xl transition-all duration-500 animate-liquid-border"
+            <div className={`relative z-10 aspect-[4/5] w-full overflow-hidden border-t border-l border-white/20 bg-black/95 backdrop-blur-xl shadow-2xl transition-all duration-500 ${anim('liquid-border')}`}
                  style={{
                    boxShadow: `0 30px 100px -20px ${reality.themeColor}80, 0 0 40px ${reality.themeColor}40`,
                    borderColor: `rgba(255,255,255,${0.2 + corruption * 0.5})`,
@@ -777,7 +4351,7 @@ const CinematicCard = ({
                    <div className="absolute inset-0 bg-radial-gradient-to-transparent from-transparent via-black/20 to-black/80 opacity-60"></div>
               </div>
 
-              <div className="absolute inset-0 animate-portal-pulse origin-center">
+              <div className={`absolute inset-0 origin-center ${still ? '' : anim('portal-pulse')}`}>
                   {/* INFINITE VORTEX SHADER - Rick and Morty Fluid Style */}
                   <div className="absolute inset-[-100%] flex items-center justify-center overflow-hidden">
                       
@@ -785,7 +4359,7 @@ const CinematicCard = ({
                       <div 
                         className="absolute inset-0 bg-black"
                          style={{ 
-                          backgroundImage: `url("${reality.bgImage}")`,
+                          backgroundImage: realityBackground(asset, reality.themeColor),
                           backgroundSize: 'cover',
                           opacity: 0.2,
                           filter: 'blur(30px)'
@@ -793,63 +4367,512 @@ const CinematicCard = ({
                       />
 
                       {/* Layer 1: Chaotic Liquid Swirl (Outer) */}
-                      <div 
-                         className="absolute w-[220%] h-[220%] rounded-full animate-spin-slow blur-xl opacity-80"
+                      {!still && <div 
+                         className={`absolute w-[220%] h-[220%] rounded-full blur-xl opacity-80 ${spinning ? anim('spin-slow') : ''}`}
                          style={{ 
                              background: `conic-gradient(from 0deg, ${reality.themeColor} 0%, transparent 20%, ${reality.themeColor} 40%, transparent 60%, ${reality.themeColor} 80%, transparent 100%)`,
                              mixBlendMode: 'hard-light',
-                             animationDuration: '20s',
+                             animationDuration: animDuration(20),
                              filter: 'blur(40px)'
                          }}
+                      />}
+
+                      {/* Layer 2: Fast Fluid Energy (Middle) */}
+                      {!still && <div 
+                         className={`absolute w-[160%] h-[160%] rounded-full opacity-90 ${spinning ? anim('liquid-swirl') : ''}`}
+                         style={{ 
+                             background: `conic-gradient(from 180deg, ${reality.particleColor} 0%, transparent 15%, ${reality.particleColor} 30%, transparent 45%, ${reality.particleColor} 60%, transparent 100%)`,
+                             mixBlendMode: 'screen',
+                             animationDuration: animDuration(8),
+                             filter: 'blur(20px)'
+                         }}
+                      />}
+                      
+                      {/* Layer 3: Tunnel Perspective (The "Depth") */}
+                      <div 
+                         className={`absolute w-[120%] h-[120%] rounded-full opacity-80 ${spinning ? anim('warp-spin') : ''}`}
+                         style={{
+                             background: `radial-gradient(circle, transparent 25%, ${reality.themeColor} 60%, black 90%)`,
+                             transform: 'translateX(calc(var(--pointer-x, 0) * -5px)) translateY(calc(var(--pointer-y, 0) * -5px)) scale(1.2)',
+                             mixBlendMode: 'multiply'
+                         }}
                       />
+                      
+                      {/* Distortion Layer - Heat Haze/Fluidity (full quality only: the turbulence filter is the most expensive layer) */}
+                      {spinning && (
+                        <svg className="absolute inset-0 w-full h-full opacity-30 mix-blend-overlay pointer-events-none">
+                           <filter id="noise">
+                               <feTurbulence type="fractalNoise" baseFrequency="0.65" numOctaves="3" stitchTiles="stitch"/>
+                               <feDisplacementMap in="SourceGraphic" scale="20" />
+                           </filter>
+                           <rect width="100%" height="100%" filter="url(#noise)" />
+                        </svg>
+                      )}
+
+                      {/* Unstable Singularity - Morphing Core */}
+                      <div className="absolute w-[15%] h-[15%] z-20">
+                          <div className={`absolute inset-0 bg-white rounded-full blur-xl opacity-90 ${still ? '' : anim('singularity')}`} />
+                          <div className={`absolute inset-[-50%] bg-white/40 rounded-full blur-2xl ${still ? '' : 'animate-pulse'}`} />
+                      </div>
+                  </div>
+              </div>
+            </div>
+
+            <PortalHoverParticles realityId={reality.id} color={reality.particleColor} isHovered={true} />
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+const createDraftReality = (seed: RealityItem): RealityItem => ({
+  ...seed,
+  id: `studio-${Date.now().toString(36)}`,
+  title: 'Untitled Reality',
+  subtitle: 'Studio Draft',
+  description: 'Describe what the traveller feels when they arrive.',
+});
+
+const StudioField = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <label className="flex flex-col gap-2">
+    <span className="font-rajdhani text-[10px] font-bold tracking-[0.3em] text-white/50 uppercase">{label}</span>
+    {children}
+  </label>
+);
+
+const studioInputClass = 'w-full bg-black/40 border border-white/10 rounded-md px-3 py-2 font-rajdhani text-sm text-white placeholder-white/20 outline-none focus:border-white/40 transition-colors';
+
+const StudioDimension = ({ 
+  active, 
+  seed, 
+  onSave 
+}: { 
+  active: boolean; 
+  seed: RealityItem; 
+  onSave: (reality: RealityItem) => void;
+}) => {
+  const nervous = useNervousSystem();
+  const [draft, setDraft] = useState<RealityItem>(() => createDraftReality(seed));
+  const [issues, setIssues] = useState<string[]>([]);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [isReadingImage, setIsReadingImage] = useState(false);
+
+  const update = <K extends keyof RealityItem>(field: K, value: RealityItem[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+    setSavedAt(null);
+  };
+
+  const handleImage = (file: File | undefined) => {
+    if (!file) return;
+    setIsReadingImage(true);
+    readImageFile(file)
+      .then(dataUrl => update('bgImage', dataUrl))
+      .catch(err => {
+        console.log(err);
+        setIssues(['Background image could not be read']);
+      })
+      .finally(() => setIsReadingImage(false));
+  };
+
+  const validate = () => {
+    const found: string[] = [];
+    const reality = validateReality(draft, 'reality', found);
+    setIssues(found.map(issue => issue.replace(/^reality\./, '')));
+    if (!reality) nervous.playThud();
+    return reality;
+  };
+
+  const handleSave = () => {
+    const reality = validate();
+    if (!reality) return;
+    onSave(reality);
+    nervous.playMemoryUnlock();
+    setSavedAt(Date.now());
+  };
+
+  const handleExport = () => {
+    const reality = validate();
+    if (!reality) return;
+    nervous.playClick();
+    downloadRealityFile([reality], reality.title);
+  };
+
+  const handleReset = () => {
+    nervous.playWhoosh();
+    setDraft(createDraftReality(seed));
+    setIssues([]);
+    setSavedAt(null);
+  };
+
+  return (
+    <div 
+      role="region" aria-label="Studio" data-dimension="studio" tabIndex={-1} inert={!active}
+      style={pausedAnimations(!active)}
+      className={`fixed inset-0 z-40 overflow-y-auto no-scrollbar bg-black/70 backdrop-blur-sm outline-none transition-all duration-500 ${active ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+    >
+      <div className="mx-auto max-w-5xl px-6 pt-[calc(3rem+env(safe-area-inset-top))] pb-[calc(12rem+env(safe-area-inset-bottom))]">
+        <h1 className="font-cinzel text-3xl text-white text-center drop-shadow-[0_0_25px_rgba(255,215,0,0.4)] tracking-[0.2em]">CREATOR STUDIO</h1>
+
+        <div className="mt-10 grid gap-10 md:grid-cols-2">
+          {/* Live Preview */}
+          <div className="relative h-[460px] md:h-[560px] overflow-hidden rounded-xl border border-white/10 bg-theme-bg md:order-2">
+            <DynamicAtmosphere atmosphereType={draft.atmosphereType} color={draft.themeColor} accent={draft.particleColor} params={draft.atmosphereParams} />
+            <div className="absolute inset-0 bg-cover bg-center opacity-20 blur-2xl mix-blend-screen" style={{ backgroundImage: `url("${draft.bgImage}")` }} />
+            {active && <TakingOverParticles corruption={0} color={draft.particleColor} shape={draft.particleShape} />}
+            <div className="absolute inset-0 flex items-center justify-center scale-[0.7] md:scale-[0.85]">
+              <CinematicCard reality={draft} corruption={0} onWarp={() => {}} />
+            </div>
+            <span className="absolute top-3 left-3 font-rajdhani text-[9px] tracking-[0.3em] text-white/40">LIVE PREVIEW</span>
+          </div>
+
+          {/* Form */}
+          <div className="flex flex-col gap-6 md:order-1">
+            <StudioField label="Title">
+              <input className={studioInputClass} value={draft.title} onChange={(e: React.ChangeEvent<HTMLInputElement>) => update('title', e.target.value)} />
+            </StudioField>
+            <StudioField label="Subtitle">
+              <input className={studioInputClass} value={draft.subtitle} onChange={(e: React.ChangeEvent<HTMLInputElement>) => update('subtitle', e.target.value)} />
+            </StudioField>
+            <StudioField label="Description">
+              <textarea className={`${studioInputClass} h-24 resize-none`} value={draft.description} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => update('description', e.target.value)} />
+            </StudioField>
+            <StudioField label={isReadingImage ? 'Background (reading...)' : 'Background Image'}>
+              <input
+                type="file"
+                accept="image/*"
+                className="font-rajdhani text-xs text-white/60 file:mr-4 file:rounded-full file:border file:border-white/20 file:bg-black/40 file:px-4 file:py-1 file:text-white/70 file:font-rajdhani file:text-[10px] file:tracking-[0.2em]"
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleImage(e.target.files?.[0])}
+              />
+            </StudioField>
+
+            <div className="grid grid-cols-2 gap-6">
+              <StudioField label="Theme Color">
+                <input type="color" className="h-10 w-full bg-transparent border border-white/10 rounded-md cursor-pointer" value={draft.themeColor} onChange={(e: React.ChangeEvent<HTMLInputElement>) => update('themeColor', e.target.value.toUpperCase())} />
+              </StudioField>
+              <StudioField label="Particle Color">
+                <input type="color" className="h-10 w-full bg-transparent border border-white/10 rounded-md cursor-pointer" value={draft.particleColor} onChange={(e: React.ChangeEvent<HTMLInputElement>) => update('particleColor', e.target.value.toUpperCase())} />
+              </StudioField>
+            </div>
+
+            <StudioField label="Particle Shape">
+              <div className="flex flex-wrap gap-2">
+                {PARTICLE_SHAPES.map(shape => (
+                  <button key={shape} type="button"
+                    className={`px-3 py-1 rounded-full border font-rajdhani text-[10px] tracking-[0.2em] uppercase transition-colors ${draft.particleShape === shape ? 'border-white/80 text-white bg-white/10' : 'border-white/10 text-white/40 hover:text-white/70'}`}
+                    onClick={() => { nervous.playClick(); update('particleShape', shape); }}
+                  >
+                    {shape}
+                  </button>
+                ))}
+              </div>
+            </StudioField>
+
+            <StudioField label="Atmosphere">
+              <div className="flex flex-wrap gap-2">
+                {ATMOSPHERE_TYPES.map(type => (
+                  <button key={type} type="button"
+                    className={`px-3 py-1 rounded-full border font-rajdhani text-[10px] tracking-[0.2em] uppercase transition-colors ${draft.atmosphereType === type ? 'border-white/80 text-white bg-white/10' : 'border-white/10 text-white/40 hover:text-white/70'}`}
+                    onClick={() => { nervous.playClick(); update('atmosphereType', type); }}
+                  >
+                    {type.replace('_', ' ')}
+                  </button>
+                ))}
+              </div>
+            </StudioField>
+
+            {issues.length > 0 && (
+              <ul className="space-y-1 border border-red-500/30 rounded-md p-3">
+                {issues.map((issue, i) => <li key={i} className="font-rajdhani text-xs text-red-300/80">{issue}</li>)}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+              <button type="button" className="px-5 py-2 rounded-full border border-white/60 bg-white/10 font-rajdhani text-[10px] tracking-[0.3em] text-white hover:bg-white/20 transition-colors" onClick={handleSave}>
+                {savedAt ? 'SAVED TO VAULT' : 'SAVE TO VAULT'}
+              </button>
+              <button type="button" className="px-5 py-2 rounded-full border border-white/20 font-rajdhani text-[10px] tracking-[0.3em] text-white/60 hover:text-white transition-colors" onClick={handleExport}>
+                EXPORT
+              </button>
+              <button type="button" className="px-5 py-2 rounded-full border border-white/10 font-rajdhani text-[10px] tracking-[0.3em] text-white/40 hover:text-white/70 transition-colors" onClick={handleReset}>
+                NEW DRAFT
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+// Read-only summary of the local event log
+const ActivityStats = ({ realities }: { realities: RealityItem[] }) => {
+  const analytics = useAnalytics();
+  const nervous = useNervousSystem();
+  const events = useAnalyticsEvents();
+  const stats = useMemo(() => summarizeAnalytics(events), [events]);
+  const titleOf = (id: string) => realities.find(r => r.id === id)?.title ?? id;
+  const rows: [string, string][] = [
+    ['Average stay', stats.averageDwellMs ? formatDuration(stats.averageDwellMs) : '—'],
+    ['Wakes abandoned', formatPercent(stats.abandonRate)],
+    ['Vault click-through', formatPercent(stats.vaultClickThrough)],
+    ['Scans', stats.scanFailures ? `${stats.scans} (${stats.scanFailures} failed)` : `${stats.scans}`],
+    ['Unlocks', `${stats.unlocks}`]
+  ];
+
+  return (
+    <div className="flex flex-col gap-3 font-rajdhani uppercase">
+      <div className="flex justify-between text-[10px] font-bold tracking-[0.3em]">
+        <span className="text-white/50">Activity</span>
+        <span className="text-white/30">{stats.total} events{stats.since ? ` since ${new Date(stats.since).toLocaleDateString()}` : ''}</span>
+      </div>
+      {stats.warps.length > 0 && (
+        <ol className="flex flex-col gap-1 text-[9px] tracking-[0.2em]" aria-label="Most warped realities">
+          {stats.warps.slice(0, 3).map(([id, count]) => (
+            <li key={id} className="flex items-center gap-2">
+              <span className="flex-1 truncate text-white/60">{titleOf(id)}</span>
+              <span className="h-[2px] w-16 rounded-full bg-white/10 overflow-hidden">
+                <span className="block h-full bg-white/60" style={{ width: `${(count / stats.warps[0][1]) * 100}%` }}></span>
+              </span>
+              <span className="w-6 text-right text-white/40">{count}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-[9px] tracking-[0.2em]">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-white/30">{label}</dt>
+            <dd className="text-right text-white/60">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      <button
+        className="self-end px-3 py-1 rounded-full border border-white/10 text-[9px] tracking-[0.2em] text-white/50 hover:text-white hover:border-white/40 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+        disabled={stats.total === 0}
+        onClick={() => { nervous.playThud(); analytics.clear(); }}
+      >
+        Clear Log
+      </button>
+    </div>
+  );
+};
+
+const SettingsSlider = ({ label, value, disabled = false, onChange }: { label: string; value: number; disabled?: boolean; onChange: (value: number) => void }) => (
+  <label className={`flex flex-col gap-2 transition-opacity ${disabled ? 'opacity-30' : 'opacity-100'}`}>
+    <div className="flex justify-between font-rajdhani text-[10px] font-bold tracking-[0.3em] uppercase">
+      <span className="text-white/50">{label}</span>
+      <span className="text-white/80">{Math.round(value * 100)}</span>
+    </div>
+    <input
+      type="range" min={0} max={100} step={1}
+      disabled={disabled}
+      value={Math.round(value * 100)}
+      onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(Number(e.target.value) / 100)}
+      className="w-full accent-white"
+    />
+  </label>
+);
+
+const orientationStatusLabel = ({ status, enabled, simulated }: OrientationState) => {
+  if (status === 'unavailable') return 'Not supported on this device';
+  if (!enabled) return 'Off';
+  if (status === 'prompt') return 'Tap the switch to allow access';
+  if (status === 'denied') return 'Access denied in browser settings';
+  if (status === 'waiting') return 'No sensor signal';
+  return simulated ? 'Simulated sensor' : 'Active';
+};
+
+const SettingsPanel = ({ open, onClose, realities = [] }: { open: boolean; onClose: () => void; realities?: RealityItem[] }) => {
+  const nervous = useNervousSystem();
+  const [settings, updateSettings] = useNervousSettings();
+  const motion = useMotion();
+  const orientation = useOrientation();
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  // Focus moves into the dialog while it is open and returns to the opener afterwards
+  useEffect(() => {
+    if (!open) return;
+    const returnFocus = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onCloseRef.current(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      returnFocus?.focus();
+    };
+  }, [open]);
+
+  return (
+    <div 
+      className={`fixed inset-0 z-[250] flex items-center justify-center bg-theme-bg/70 backdrop-blur-md p-6 transition-opacity duration-300 ${open ? 'opacity-100 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+      onClick={onClose}
+      inert={!open}
+    >
+      <div role="dialog" aria-modal="true" aria-labelledby="settings-title" className="w-full max-w-sm max-h-[85vh] overflow-y-auto rounded-xl border border-white/10 bg-theme-surface/60 p-6 flex flex-col gap-6" onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <span id="settings-title" className="font-cinzel text-lg tracking-[0.2em] text-white">SENSES</span>
+          <button ref={closeRef} aria-label="Close settings" className="material-symbols-outlined text-white/40 hover:text-white transition-colors" onClick={onClose}>close</button>
+        </div>
+
+        <SettingsSlider label="Master" value={settings.masterVolume} onChange={masterVolume => updateSettings({ masterVolume })} />
+        <SettingsSlider label="Effects" value={settings.effectsVolume} onChange={effectsVolume => { updateSettings({ effectsVolume }); nervous.playThud(); }} />
+        <SettingsSlider label="Ambient Hum" value={settings.ambientVolume} onChange={ambientVolume => updateSettings({ ambientVolume })} />
+        <SettingsSlider label="Interface" value={settings.uiVolume} onChange={uiVolume => { updateSettings({ uiVolume }); nervous.playClick(); }} />
+
+        <div className="h-px bg-white/10"></div>
+
+        <div className="flex flex-col gap-2">
+          <div className="flex justify-between font-rajdhani text-[10px] font-bold tracking-[0.3em] uppercase">
+            <span className="text-white/50">Motion</span>
+            {motion.preference === 'auto' && <span className="text-white/30">Detected: {motion.detected}</span>}
+          </div>
+          <div className="flex gap-2">
+            {(['auto', ...MOTION_LEVELS] as MotionPreference[]).map(option => (
+              <button key={option} aria-pressed={motion.preference === option}
+                className={`flex-1 px-2 py-1 rounded-full border font-rajdhani text-[9px] tracking-[0.2em] uppercase transition-colors ${motion.preference === option ? 'border-white/80 text-white bg-white/10' : 'border-white/10 text-white/40 hover:text-white/70'}`}
+                onClick={() => { nervous.playClick(); motion.setPreference(option); }}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="h-px bg-white/10"></div>
+
+        <button
+          role="switch"
+          aria-checked={settings.hapticsEnabled}
+          className="flex items-center justify-between font-rajdhani text-[10px] font-bold tracking-[0.3em] uppercase"
+          onClick={() => {
+            updateSettings({ hapticsEnabled: !settings.hapticsEnabled });
+            nervous.triggerHaptic('heavy');
+          }}
+        >
+          <span className="text-white/50">Haptics</span>
+          <span className={`relative h-5 w-9 rounded-full border transition-colors ${settings.hapticsEnabled ? 'border-white/60 bg-white/20' : 'border-white/10 bg-black/40'}`}>
+            <span className={`absolute top-0.5 size-3.5 rounded-full bg-white transition-all ${settings.hapticsEnabled ? 'left-[18px]' : 'left-0.5 opacity-40'}`}></span>
+          </span>
+        </button>
+        <SettingsSlider 
+          label="Haptic Intensity" 
+          value={settings.hapticIntensity} 
+          disabled={!settings.hapticsEnabled} 
+          onChange={hapticIntensity => { updateSettings({ hapticIntensity }); nervous.triggerHaptic('heavy'); }} 
+        />
 
-                      {/* Layer 2: Fast Fluid Energy (Middle) */}
-                      <div 
-                         className="absolute w-[160%] h-[160%] rounded-full animate-liquid-swirl opacity-90"
-                         style={{ 
-                             background: `conic-gradient(from 180deg, ${reality.particleColor} 0%, transparent 15%, ${reality.particleColor} 30%, transparent 45%, ${reality.particleColor} 60%, transparent 100%)`,
-                             mixBlendMode: 'screen',
-                             animationDuration: '8s',
-                             filter: 'blur(20px)'
-                         }}
-                      />
-                      
-                      {/* Layer 3: Tunnel Perspective (The "Depth") */}
-                      <div 
-                         className="absolute w-[120%] h-[120%] rounded-full opacity-80 animate-warp-spin"
-                         style={{
-                             background: `radial-gradient(circle, transparent 25%, ${reality.themeColor} 60%, black 90%)`,
-                             transform: `translateX(${tilt.x * -5}px) translateY(${tilt.y * -5}px) scale(1.2)`,
-                             mixBlendMode: 'multiply'
-                         }}
-                      />
-                      
-                      {/* Distortion Layer - Heat Haze/Fluidity */}
-                      <svg className="absolute inset-0 w-full h-full opacity-30 mix-blend-overlay pointer-events-none">
-                         <filter id="noise">
-                             <feTurbulence type="fractalNoise" baseFrequency="0.65" numOctaves="3" stitchTiles="stitch"/>
-                             <feDisplacementMap in="SourceGraphic" scale="20" />
-                         </filter>
-                         <rect width="100%" height="100%" filter="url(#noise)" />
-                      </svg>
+        <div className="h-px bg-white/10"></div>
 
-                      {/* Unstable Singularity - Morphing Core */}
-                      <div className="absolute w-[15%] h-[15%] z-20">
-                          <div className="absolute inset-0 bg-white rounded-full blur-xl animate-singularity opacity-90" />
-                          <div className="absolute inset-[-50%] bg-white/40 rounded-full blur-2xl animate-pulse" />
-                      </div>
-                  </div>
-              </div>
-              
-              <PortalHoverParticles realityId={reality.id} color={reality.particleColor} isHovered={true} />
-            </div>
+        <div className="flex flex-col gap-3">
+          <button
+            role="switch"
+            aria-checked={orientation.enabled}
+            disabled={orientation.status === 'unavailable'}
+            className="flex items-center justify-between font-rajdhani text-[10px] font-bold tracking-[0.3em] uppercase disabled:opacity-30"
+            onClick={() => {
+              nervous.playClick();
+              // Switched on but still waiting on the browser: a tap asks for permission rather than turning tilt off
+              orientation.setEnabled(!orientation.enabled || orientation.status === 'prompt');
+            }}
+          >
+            <span className="text-white/50">Motion Sensor</span>
+            <span className={`relative h-5 w-9 rounded-full border transition-colors ${orientation.enabled ? 'border-white/60 bg-white/20' : 'border-white/10 bg-black/40'}`}>
+              <span className={`absolute top-0.5 size-3.5 rounded-full bg-white transition-all ${orientation.enabled ? 'left-[18px]' : 'left-0.5 opacity-40'}`}></span>
+            </span>
+          </button>
+          <div className="flex items-center justify-between font-rajdhani text-[9px] tracking-[0.2em] uppercase">
+            <span className="text-white/30">{orientationStatusLabel(orientation)}</span>
+            <button
+              className="px-3 py-1 rounded-full border border-white/10 text-white/50 hover:text-white hover:border-white/40 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+              disabled={!orientation.enabled || orientation.status !== 'active'}
+              onClick={() => { nervous.playClick(); nervous.triggerHaptic('light'); orientation.calibrate(); }}
+            >
+              Set Level
+            </button>
+          </div>
         </div>
 
+        <div className="h-px bg-white/10"></div>
+
+        <ActivityStats realities={realities} />
       </div>
     </div>
   );
 };
 
+const PURIFY_HOLD_MS = 1500;
+
+// HUD readout for the focused reality's corruption; press and hold to purify it
+const CorruptionMeter = ({ corruption, onPurify }: { corruption: number; onPurify: () => void }) => {
+  const nervous = useNervousSystem();
+  const [holdProgress, setHoldProgress] = useState(0);
+  const holdTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+  const stage = corruptionStage(corruption);
+  const tint = stage === 'breached' ? '#FF0040' : stage === 'tainted' ? '#FF00FF' : '#50E3C2';
+
+  const stopHold = () => {
+    if (holdTimer.current) clearInterval(holdTimer.current);
+    holdTimer.current = null;
+    setHoldProgress(0);
+  };
+
+  const startHold = () => {
+    if (corruption <= 0 || holdTimer.current) return;
+    nervous.triggerHaptic('light');
+    const startedAt = Date.now();
+    holdTimer.current = setInterval(() => {
+      const progress = Math.min(1, (Date.now() - startedAt) / PURIFY_HOLD_MS);
+      setHoldProgress(progress);
+      if (progress >= 1) {
+        stopHold();
+        nervous.playMemoryUnlock();
+        nervous.triggerHaptic('heavy');
+        onPurify();
+      }
+    }, 30);
+  };
+
+  useEffect(() => stopHold, []);
+
+  return (
+    <button
+      className="group flex flex-col items-start gap-2 select-none outline-none"
+      aria-label={`Corruption ${Math.round(corruption * 100)} percent. Hold Enter to purify.`}
+      onPointerDown={(e: React.PointerEvent) => { if (e.button === 0) startHold(); }}
+      onPointerUp={stopHold} onPointerLeave={stopHold} onPointerCancel={stopHold}
+      onKeyDown={(e: React.KeyboardEvent) => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        if (!e.repeat) startHold();
+      }}
+      onKeyUp={stopHold} onBlur={stopHold}
+    >
+      <div className="flex items-center gap-2 font-rajdhani text-[9px] font-bold tracking-[0.3em] uppercase">
+        <span className="text-white/40">Corruption</span>
+        <span style={{ color: tint }}>{Math.round(corruption * 100)}%</span>
+      </div>
+      <div className="relative h-[3px] w-32 rounded-full bg-white/10 overflow-hidden">
+        <div className="absolute inset-y-0 left-0 transition-[width] duration-200" style={{ width: `${corruption * 100}%`, backgroundColor: tint, boxShadow: `0 0 8px ${tint}` }}></div>
+        <div className="absolute inset-y-0 w-px bg-white/40" style={{ left: `${CORRUPTION_TAINT * 100}%` }}></div>
+        <div className="absolute inset-y-0 left-0 bg-white" style={{ width: `${holdProgress * 100}%` }}></div>
+      </div>
+      <span className={`font-rajdhani text-[8px] tracking-[0.3em] text-white/30 uppercase transition-opacity ${corruption > 0 ? 'opacity-0 group-hover:opacity-100 group-focus-visible:opacity-100' : 'opacity-0'} ${holdProgress > 0 ? 'opacity-100' : ''}`}>
+        {holdProgress > 0 ? 'Purifying...' : 'Hold to purify'}
+      </span>
+    </button>
+  );
+};
+
 const OrbitalHud = ({ 
   currentMode, 
   onSwitchMode,
@@ -857,14 +4880,29 @@ const OrbitalHud = ({
   isScanning
 }: { 
   currentMode: number; 
-  onSwitchMode: (index: number) => void;
+  onSwitchMode: (index: number, via: 'pointer' | 'keyboard') => void;
   onCapture: () => void;
   isScanning: boolean;
 }) => {
   const nervous = useNervousSystem();
   const [clickedIndex, setClickedIndex] = useState<number | null>(null);
+  const buttonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  // Arrow keys move between modes (and switch to them), tablist style
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const last = systemModes.length - 1;
+    const next = e.key === 'ArrowRight' ? (currentMode + 1) % systemModes.length
+      : e.key === 'ArrowLeft' ? (currentMode + last) % systemModes.length
+      : e.key === 'Home' ? 0
+      : e.key === 'End' ? last
+      : null;
+    if (next === null) return;
+    e.preventDefault();
+    buttonRefs.current[next]?.focus();
+    handleClick(next, 'keyboard');
+  };
 
-  const handleClick = (index: number) => {
+  const handleClick = (index: number, via: 'pointer' | 'keyboard' = 'pointer') => {
       setClickedIndex(index);
       nervous.playClick();
       nervous.triggerHaptic('heavy');
@@ -874,17 +4912,17 @@ const OrbitalHud = ({
       if (currentMode === 1 && index === 1) {
           onCapture();
       } else {
-          onSwitchMode(index);
+          onSwitchMode(index, via);
       }
   };
 
   return (
     <div className="w-full flex justify-center pb-[max(1.5rem,env(safe-area-inset-bottom))]">
-      <div className="flex items-end justify-center gap-8">
+      <div className="flex items-end justify-center gap-8" role="tablist" aria-label="Dimensions" onKeyDown={handleKeyDown}>
         {systemModes.map((mode) => {
           const isSelected = currentMode === mode.index;
           const isBursting = clickedIndex === mode.index;
-          const yOffset = (mode.index === 0 || mode.index === 2) ? -20 : 0;
+          const yOffset = (mode.index === 0 || mode.index === systemModes.length - 1) ? -20 : 0;
           
           // Transform Scanner button if active
           const isScannerActive = isSelected && mode.id === 'scanner';
@@ -893,6 +4931,11 @@ const OrbitalHud = ({
           return (
             <button
               key={mode.id}
+              ref={(el: HTMLButtonElement | null) => { buttonRefs.current[mode.index] = el; }}
+              role="tab"
+              aria-selected={isSelected}
+              aria-label={isScannerActive ? (isScanning ? 'Scanning' : 'Capture scan') : mode.label}
+              tabIndex={isSelected ? 0 : -1}
               onClick={() => handleClick(mode.index)}
               onMouseEnter={() => { nervous.triggerHaptic('light'); }}
               className={`group relative flex flex-col items-center outline-none transition-all duration-500 ease-out`}
@@ -905,26 +4948,26 @@ const OrbitalHud = ({
                 
                 {/* Active State - Cohesive Lens */}
                 <div 
-                  className={`relative z-10 size-14 rounded-full flex items-center justify-center transition-all duration-300
+                  className={`relative z-10 size-14 rounded-full flex items-center justify-center transition-all duration-300 group-focus-visible:ring-2 group-focus-visible:ring-white/60
                     ${isSelected 
-                      ? 'bg-white/10 text-white backdrop-blur-md border-[2px] border-white/80 shadow-[0_0_20px_rgba(255,255,255,0.4)]' 
+                      ? 'bg-theme-glow/10 text-theme-text backdrop-blur-md border-[2px] border-theme-text/80 shadow-[0_0_20px_color-mix(in_srgb,var(--theme-glow)_50%,transparent)]' 
                       : 'bg-black/40 border border-white/10 text-white/30 backdrop-blur-md hover:border-white/40 hover:text-white/60 hover:shadow-[0_0_15px_rgba(255,255,255,0.1)]' 
                     }
                     ${isScannerActive && isScanning ? 'border-red-500 bg-red-500/20 shadow-[0_0_20px_red]' : ''}
                   `}
                 >
                    <span className={`material-symbols-outlined text-2xl ${isScannerActive ? 'scale-125' : ''}`}>{buttonIcon}</span>
-                   {isSelected && <div className="absolute inset-2 rounded-full border border-white/20"></div>}
+                   {isSelected && <div className="absolute inset-2 rounded-full border border-theme-glow/40"></div>}
                 </div>
                 
                 {isSelected && mode.id === 'scanner' && (
-                   <div className="absolute -top-3 -right-3 px-1.5 py-0.5 bg-emerald-500/20 border border-emerald-500/40 rounded text-[6px] font-rajdhani text-emerald-300 tracking-widest backdrop-blur-md animate-fade-in-slow shadow-lg">
+                   <div className={`absolute -top-3 -right-3 px-1.5 py-0.5 bg-emerald-500/20 border border-emerald-500/40 rounded text-[6px] font-rajdhani text-emerald-300 tracking-widest backdrop-blur-md ${anim('fade-in-slow')} shadow-lg`}>
                      {isScanning ? 'REC' : 'RDY'}
                    </div>
                 )}
               </div>
               
-               <div className={`mt-4 font-rajdhani text-[10px] font-bold uppercase tracking-[0.2em] transition-all duration-300 ${isSelected ? 'opacity-100 text-white translate-y-0 text-shadow-glow' : 'opacity-0 text-white/40 -translate-y-2'}`}>
+               <div className={`mt-4 font-rajdhani text-[10px] font-bold uppercase tracking-[0.2em] transition-all duration-300 ${isSelected ? 'opacity-100 text-theme-text translate-y-0 text-shadow-glow' : 'opacity-0 text-white/40 -translate-y-2'}`}>
                   {mode.label}
                </div>
             </button>
@@ -935,23 +4978,119 @@ const OrbitalHud = ({
   );
 };
 
-const ImmersivePlayer = ({ reality, onExit }: { reality: RealityItem; onExit: () => void }) => {
+const narrativeTextClass: Record<NarrativeTextStyle, string> = {
+  whisper: `font-rajdhani text-xs md:text-sm font-bold tracking-[0.5em] text-white/60 uppercase ${anim('slide-up-fade')} text-shadow-glow`,
+  title: `font-cinzel mt-4 text-4xl md:text-8xl font-bold text-white tracking-tighter drop-shadow-2xl ${anim('scale-up-fade')} text-shadow-glow leading-tight`,
+  line: `font-rajdhani mt-6 max-w-md text-sm md:text-lg text-white/80 font-medium leading-relaxed ${anim('fade-in-delay')} drop-shadow-md`,
+};
+
+// Keeps taps on the player's own controls from starting the hold-to-wake exit
+const stopHold = {
+  onPointerDown: (e: React.SyntheticEvent) => e.stopPropagation(),
+};
+
+interface NarrativeBurst {
+  id: number;
+  count: number;
+  color: string;
+}
+
+const MATERIALIZE_MIN_MS = 1200;
+const MATERIALIZE_MAX_MS = 12000;
+
+const ImmersivePlayer = ({
+  reality,
+  paths = [],
+  departing = false,
+  offline = false,
+  onTravel,
+  onExit
+}: {
+  reality: RealityItem;
+  paths?: RealityPath[];
+  departing?: boolean;
+  offline?: boolean; // the plate was never cached, so there is nothing to show without a connection
+  onTravel?: (id: string) => void;
+  onExit: () => void;
+}) => {
   const [stage, setStage] = useState<'materializing' | 'active'>('materializing');
+  const [ritualDone, setRitualDone] = useState(false);
   const [exitProgress, setExitProgress] = useState(0);
+  const [bursts, setBursts] = useState<NarrativeBurst[]>([]);
   const pressTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+  const burstTimers = useRef<ReturnType<typeof setTimeout>[]>([]);
   const nervous = useNervousSystem();
+  const quality = useMotionQuality();
+  const analytics = useAnalytics();
+
+  const asset = useAsset(offline ? '' : reality.bgImage);
+  const beats = useMemo(() => resolveNarrative(reality), [reality]);
+
+  const fireBeat = (beat: NarrativeBeat) => {
+    if (beat.kind === 'cue') {
+      if (beat.sound === 'click') nervous.playClick();
+      else if (beat.sound === 'thud') nervous.playThud();
+      else if (beat.sound === 'whoosh') nervous.playWhoosh();
+      else nervous.playMemoryUnlock();
+      if (beat.sound === 'thud') nervous.triggerHaptic('heavy');
+    } else if (beat.kind === 'burst') {
+      if (quality === 'minimal') return;
+      const count = Math.round((beat.count ?? 100) * (quality === 'reduced' ? 0.25 : 1));
+      const burst = { id: Date.now() + Math.random(), count, color: beat.color ?? reality.particleColor };
+      setBursts(prev => [...prev, burst]);
+      burstTimers.current.push(setTimeout(() => setBursts(prev => prev.filter(b => b.id !== burst.id)), 6000));
+    }
+  };
+
+  const timeline = useNarrativeTimeline(beats, stage === 'active' && !offline, fireBeat);
+  const visibleText = visibleTextAt(beats, timeline.time);
+
+  // Camera and progress follow the clock every frame without re-rendering the player
+  const cameraPlateRef = useRef<HTMLDivElement | null>(null);
+  const progressRef = useRef<HTMLDivElement | null>(null);
+  const { onFrame } = timeline;
+  useEffect(() => onFrame(time => {
+    const camera = quality === 'minimal' ? { zoom: 1, x: 0, y: 0 } : cameraAt(beats, time);
+    if (cameraPlateRef.current) cameraPlateRef.current.style.transform = `scale(${camera.zoom}) translate(${camera.x}%, ${camera.y}%)`;
+    const bar = progressRef.current;
+    if (bar) {
+      const percent = timeline.length > 0 ? (time / timeline.length) * 100 : 100;
+      bar.style.width = `${percent}%`;
+      bar.parentElement?.setAttribute('aria-valuenow', String(Math.round(percent)));
+    }
+  }), [onFrame, beats, quality, timeline.length]);
+
+  useEffect(() => () => burstTimers.current.forEach(clearTimeout), []);
 
   useEffect(() => {
     const elem = document.documentElement;
     if (elem.requestFullscreen) {
        elem.requestFullscreen().catch(err => console.log(err));
     }
-    const timer = setTimeout(() => {
-        setStage('active');
-    }, 3000);
-    return () => clearTimeout(timer);
+    return () => {
+        // Leaving through browser navigation skips the ritual exit
+        if (document.fullscreenElement && document.exitFullscreen) document.exitFullscreen().catch(() => {});
+    };
   }, []);
 
+  // Travelling between linked realities keeps the player (and fullscreen) mounted, so re-materialize per reality
+  // The ritual lasts at least MATERIALIZE_MIN_MS and then waits on the plate, but never past MATERIALIZE_MAX_MS
+  useEffect(() => {
+    setStage('materializing');
+    setRitualDone(false);
+    setBursts([]);
+    const minTimer = setTimeout(() => setRitualDone(true), MATERIALIZE_MIN_MS);
+    const maxTimer = setTimeout(() => setStage('active'), MATERIALIZE_MAX_MS);
+    return () => {
+      clearTimeout(minTimer);
+      clearTimeout(maxTimer);
+    };
+  }, [reality.id]);
+
+  useEffect(() => {
+    if (ritualDone && (asset.status !== 'loading' || offline)) setStage('active');
+  }, [ritualDone, asset.status, offline]);
+
   const handleInteraction = useCallback((clientX: number) => {
       const width = window.innerWidth;
       // normalize 0..width to -1..1
@@ -959,11 +5098,28 @@ const ImmersivePlayer = ({ reality, onExit }: { reality: RealityItem; onExit: ()
       nervous.setSpatialPosition(norm);
   }, [nervous]);
 
-  const handleMouseMove = (e: React.MouseEvent) => handleInteraction(e.clientX);
-  const handleTouchMove = (e: React.TouchEvent) => {
-      if (e.touches.length > 0) handleInteraction(e.touches[0].clientX);
+  const handlePointerMove = (e: React.PointerEvent) => {
+      if (e.isPrimary) handleInteraction(e.clientX);
   };
 
+  // Tilting the phone pans the soundscape the same way dragging does
+  const sensorPan = useOrientationPan();
+  const parallaxPlateRef = useRef<HTMLDivElement | null>(null);
+  useOrientationTiltListener(tilt => {
+      if (parallaxPlateRef.current) parallaxPlateRef.current.style.transform = tilt ? `scale(1.08) translate(${-tilt.x * 3}%, ${-tilt.y * 3}%)` : '';
+  });
+  useEffect(() => {
+      if (sensorPan !== null) nervous.setSpatialPosition(sensorPan);
+  }, [sensorPan, nervous]);
+
+  // Dwell time per reality; travel keeps the player mounted, so each reality closes its own visit
+  const exitVia = useRef<'wake' | 'travel' | 'navigation'>('navigation');
+  useEffect(() => {
+    const enteredAt = Date.now();
+    exitVia.current = 'navigation';
+    return () => analytics.emit({ type: 'exit', realityId: reality.id, dwellMs: Date.now() - enteredAt, via: exitVia.current });
+  }, [reality.id, analytics]);
+
   // Ritual Exit Logic with Audio Modulation
   const startExit = () => {
     pressTimer.current = setInterval(() => {
@@ -976,6 +5132,7 @@ const ImmersivePlayer = ({ reality, onExit }: { reality: RealityItem; onExit: ()
                 clearInterval(pressTimer.current!);
                 if (document.exitFullscreen) document.exitFullscreen().catch(() => {});
                 nervous.modulateEnvironment(1); // Reset
+                exitVia.current = 'wake';
                 onExit();
                 return 100;
             }
@@ -985,31 +5142,77 @@ const ImmersivePlayer = ({ reality, onExit }: { reality: RealityItem; onExit: ()
   };
 
   const cancelExit = () => {
+      // Letting go partway counts as an abandoned wake; brushes under 10% are just taps
+      if (pressTimer.current && exitProgress >= 10 && exitProgress < 100) {
+          analytics.emit({ type: 'wake-abandoned', realityId: reality.id, progress: exitProgress / 100 });
+      }
       if (pressTimer.current) clearInterval(pressTimer.current);
+      pressTimer.current = null;
       setExitProgress(0);
       nervous.modulateEnvironment(1); // Reset
   };
 
+  // Keyboard wake: hold Space (or W) instead of pressing and holding the screen.
+  // Not Escape: in fullscreen the browser takes it to leave fullscreen and the page never sees it.
+  const exitHandlers = useRef({ startExit, cancelExit });
+  exitHandlers.current = { startExit, cancelExit };
+  useEffect(() => {
+    const isWakeKey = (e: KeyboardEvent) =>
+      e.key === 'w' || e.key === 'W' || (e.key === ' ' && !(e.target instanceof HTMLButtonElement));
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isWakeKey(e)) return;
+      e.preventDefault();
+      if (!e.repeat && !pressTimer.current) exitHandlers.current.startExit();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (isWakeKey(e)) exitHandlers.current.cancelExit();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  const announcement = stage === 'materializing' ? `Materializing ${reality.title}`
+    : departing ? 'Warping'
+    : timeline.choice ? `${timeline.choice.prompt} Choose: ${timeline.choice.options.map(o => o.label).join(', ')}`
+    : timeline.status === 'finished' && paths.length > 0 ? `Paths onward: ${paths.map(p => p.target.title).join(', ')}`
+    : `${reality.title}. Hold Space to wake.`;
+
   return (
     <div 
       className="relative flex h-screen w-full flex-col items-center justify-center overflow-hidden bg-black font-display text-white z-[100]"
-      onMouseDown={startExit} onMouseUp={cancelExit} onMouseLeave={cancelExit}
-      onTouchStart={startExit} onTouchEnd={cancelExit}
-      onMouseMove={handleMouseMove} onTouchMove={handleTouchMove}
+      onPointerDown={(e: React.PointerEvent) => { if (e.isPrimary && !pressTimer.current) startExit(); }}
+      onPointerUp={cancelExit} onPointerLeave={cancelExit} onPointerCancel={cancelExit}
+      onPointerMove={handlePointerMove}
+      style={{ touchAction: 'none', ...pausedAnimations(timeline.status === 'paused') }}
+      role="main" aria-label={reality.title}
     >
-       <div className={`absolute inset-0 z-50 flex items-center justify-center bg-black transition-opacity duration-1000 ${stage === 'active' ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
+       <LiveRegion message={announcement} />
+
+       <div aria-hidden="true" className={`absolute inset-0 z-50 flex items-center justify-center bg-black transition-opacity duration-1000 ${stage === 'active' ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
            <div className="flex flex-col items-center">
                <div className="h-1 w-32 bg-white/10 rounded-full overflow-hidden mb-4">
-                   <div className="h-full bg-white animate-[width_3s_ease-out_forwards]" style={{ width: '0%' }}></div>
+                   <div className="h-full bg-white transition-[width] duration-300 ease-out" style={{ width: `${(offline ? 1 : asset.progress) * 100}%` }}></div>
                </div>
                <span className="font-rajdhani text-xs tracking-[0.5em] text-white/50 animate-pulse">MATERIALIZING...</span>
            </div>
        </div>
 
-       <div 
-         className="absolute inset-0 bg-cover bg-center opacity-60 transition-transform duration-[20s] ease-linear hover:scale-110" 
-         style={{ backgroundImage: `url("${reality.bgImage}")`, animation: 'pan-video 30s infinite alternate' }} 
-       />
+       {/* Camera pushes from the narrative move the whole background plate; departing plunges through it */}
+       <div className={`absolute inset-0 transition-[filter] duration-500 ${departing ? 'blur-sm' : ''}`} style={{ transform: departing ? 'scale(3)' : undefined, transition: departing ? 'transform 1s ease-in' : undefined, ...pausedAnimations(stage !== 'active') }}>
+         <div ref={cameraPlateRef} className="absolute inset-0">
+           {/* Gyroscope parallax: the plate drifts against the tilt, slightly overscanned so edges never show */}
+           <div ref={parallaxPlateRef} className="absolute inset-0">
+             <div 
+               className={`absolute inset-0 bg-cover bg-center opacity-60 transition-transform duration-[20s] ease-linear hover:scale-110 ${anim('pan-video')}`} 
+               style={{ backgroundImage: offline ? 'none' : realityBackground(asset, reality.themeColor) }} 
+             />
+           </div>
+         </div>
+       </div>
        <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-black/40"></div>
        <div className="bg-noise absolute inset-0 mix-blend-overlay opacity-30"></div>
        
@@ -1020,10 +5223,97 @@ const ImmersivePlayer = ({ reality, onExit }: { reality: RealityItem; onExit: ()
           shape={reality.particleShape}
        />
 
-       <div className={`relative z-10 flex flex-col items-center text-center p-8 transition-opacity duration-1000 ${stage === 'active' ? 'opacity-100' : 'opacity-0'}`}>
-          <p className="font-rajdhani text-xs md:text-sm font-bold tracking-[0.5em] text-white/60 uppercase animate-slide-up-fade text-shadow-glow">{reality.subtitle}</p>
-          <h1 className="font-cinzel mt-4 text-4xl md:text-8xl font-bold text-white tracking-tighter drop-shadow-2xl animate-scale-up-fade text-shadow-glow leading-tight">{reality.title}</h1>
-          <p className="font-rajdhani mt-6 max-w-md text-sm md:text-lg text-white/80 font-medium leading-relaxed animate-fade-in-delay drop-shadow-md">{reality.description}</p>
+       {bursts.map(burst => (
+          <div key={burst.id} className="pointer-events-none absolute inset-0 z-20 overflow-hidden mix-blend-screen">
+             <ParticleField count={burst.count} color={burst.color} shape={reality.particleShape} motion="float-out" durationScale={0.6} sizeRange={[2, 7]} once />
+          </div>
+       ))}
+
+       {offline && (
+          <div role="status" className={`relative z-10 flex flex-col items-center text-center gap-4 p-8 transition-opacity duration-1000 ${stage === 'active' ? 'opacity-100' : 'opacity-0'}`}>
+             <span className="material-symbols-outlined text-4xl text-white/40" aria-hidden="true">cloud_off</span>
+             <h1 className="font-cinzel text-3xl md:text-5xl text-white/80 tracking-widest">{reality.title}</h1>
+             <p className="font-rajdhani text-xs tracking-[0.4em] text-white/50 uppercase">Not seen on this device yet · Reconnect to enter</p>
+          </div>
+       )}
+
+       {/* Narrative beats (delays come from the timeline, not the CSS) */}
+       <div aria-live="polite" className={`relative z-10 flex flex-col items-center text-center p-8 transition-opacity duration-1000 ${stage === 'active' ? 'opacity-100' : 'opacity-0'} ${offline ? 'hidden' : ''}`}>
+          {visibleText.map(beat => {
+             const style = beat.style ?? 'line';
+             const Tag = style === 'title' ? 'h1' : 'p';
+             return <Tag key={`${beat.at}-${beat.text}`} className={narrativeTextClass[style]} style={{ animationDelay: '0s' }}>{beat.text}</Tag>;
+          })}
+
+          {timeline.status === 'finished' && paths.length > 0 && onTravel && (
+             <div className={`mt-12 flex flex-col items-center gap-4 ${anim('fade-in-slow')}`} {...stopHold}>
+                <span className="font-rajdhani text-[10px] tracking-[0.5em] text-white/40 uppercase">Paths Onward</span>
+                <div className="flex flex-wrap justify-center gap-3">
+                   {paths.map(({ link, target }) => (
+                      <button
+                         key={target.id}
+                         disabled={departing}
+                         onClick={() => { exitVia.current = 'travel'; onTravel(target.id); }}
+                         className="group flex flex-col items-center px-5 py-2 rounded-2xl border border-white/15 bg-black/40 backdrop-blur-md hover:border-white/50 transition-colors"
+                         style={{ boxShadow: `0 0 24px ${target.themeColor}33` }}
+                      >
+                         <span className="font-rajdhani text-xs font-bold tracking-[0.25em] text-white/80 uppercase group-hover:text-white">{link.label}</span>
+                         <span className="font-cinzel text-[10px] tracking-widest" style={{ color: target.themeColor }}>{target.title}</span>
+                      </button>
+                   ))}
+                </div>
+             </div>
+          )}
+
+          {timeline.choice && (
+             <div className={`mt-10 flex flex-col items-center gap-4 ${anim('fade-in-slow')}`} {...stopHold}>
+                <span className="font-rajdhani text-xs tracking-[0.4em] text-white/60 uppercase">{timeline.choice.prompt}</span>
+                <div className="flex flex-wrap justify-center gap-3">
+                   {timeline.choice.options.map(option => (
+                      <button
+                         key={option.label}
+                         onClick={() => { nervous.playClick(); nervous.triggerHaptic('light'); timeline.choose(option); }}
+                         className="px-5 py-2 rounded-full border border-white/20 bg-black/40 backdrop-blur-md font-rajdhani text-xs font-bold tracking-[0.3em] text-white/80 uppercase hover:border-white/60 hover:text-white transition-colors"
+                         style={{ boxShadow: `0 0 20px ${reality.themeColor}33` }}
+                      >
+                         {option.label}
+                      </button>
+                   ))}
+                </div>
+             </div>
+          )}
+       </div>
+
+       {/* Timeline controls */}
+       <div 
+          className={`absolute bottom-[calc(1.5rem+env(safe-area-inset-bottom))] left-6 z-30 flex items-center gap-3 transition-opacity duration-500 ${stage === 'active' && exitProgress === 0 ? 'opacity-60 hover:opacity-100' : 'opacity-0 pointer-events-none'}`}
+          {...stopHold}
+       >
+          {timeline.status === 'finished' ? (
+             <button aria-label="Replay" onClick={() => { nervous.playClick(); timeline.replay(); }} className="size-8 rounded-full flex items-center justify-center border border-white/20 text-white/70 hover:text-white">
+                <span className="material-symbols-outlined text-lg">replay</span>
+             </button>
+          ) : (
+             <button
+                aria-label={timeline.status === 'paused' ? 'Resume' : 'Pause'}
+                onClick={() => { nervous.playClick(); if (timeline.status === 'paused') timeline.resume(); else timeline.pause(); }}
+                disabled={timeline.status === 'choosing'}
+                className="size-8 rounded-full flex items-center justify-center border border-white/20 text-white/70 hover:text-white disabled:opacity-30"
+             >
+                <span className="material-symbols-outlined text-lg">{timeline.status === 'paused' ? 'play_arrow' : 'pause'}</span>
+             </button>
+          )}
+          <button
+             aria-label="Skip to next beat"
+             onClick={() => { nervous.playClick(); timeline.skip(); }}
+             disabled={timeline.status === 'choosing' || timeline.status === 'finished'}
+             className="size-8 rounded-full flex items-center justify-center border border-white/20 text-white/70 hover:text-white disabled:opacity-30"
+          >
+             <span className="material-symbols-outlined text-lg">skip_next</span>
+          </button>
+          <div className="h-[2px] w-24 rounded-full bg-white/10 overflow-hidden" role="progressbar" aria-label="Sequence progress" aria-valuemin={0} aria-valuemax={100}>
+             <div ref={progressRef} className="h-full bg-white/70"></div>
+          </div>
        </div>
 
        <div 
@@ -1042,6 +5332,9 @@ const ImmersivePlayer = ({ reality, onExit }: { reality: RealityItem; onExit: ()
                <span className="mt-4 font-rajdhani text-xs tracking-widest text-white/70">HOLD TO WAKE</span>
            </div>
        )}
+
+       {/* Warp Whiteout (same as leaving the portal) */}
+       <div className="pointer-events-none absolute inset-0 z-[60] bg-white transition-opacity duration-500 ease-in delay-300" style={{ opacity: departing ? 1 : 0 }} />
     </div>
   );
 };
@@ -1065,10 +5358,10 @@ const CinematicIntro = ({ onComplete }: { onComplete: () => void }) => {
 
     return (
         <div className={`fixed inset-0 z-[200] flex items-center justify-center bg-black transition-opacity duration-1000 ${step === 3 ? 'opacity-0' : 'opacity-100'}`}>
-            {step === 3 && <div className="absolute inset-0 bg-white animate-[fadeOut_0.1s_ease-out_forwards]"></div>}
+            {step === 3 && <div className={`absolute inset-0 bg-white ${anim('fade-out')}`}></div>}
             {step >= 1 && (
                 <div className="relative flex flex-col items-center">
-                    <div className={`h-[2px] bg-cyan-400 shadow-[0_0_20px_cyan] transition-all duration-700 ease-out ${step >= 2 ? 'w-0 opacity-0' : 'w-64 opacity-100'}`}></div>
+                    <div className={`h-[2px] bg-theme-accent-safe shadow-[0_0_20px_var(--theme-glow)] transition-all duration-700 ease-out ${step >= 2 ? 'w-0 opacity-0' : 'w-64 opacity-100'}`}></div>
                     <div className={`transition-all duration-500 transform ${step === 2 ? 'scale-150 opacity-100' : 'scale-0 opacity-0'}`}>
                          <span className="material-symbols-outlined text-6xl text-white drop-shadow-[0_0_30px_rgba(255,255,255,0.8)]">auto_awesome_mosaic</span>
                     </div>
@@ -1078,15 +5371,41 @@ const CinematicIntro = ({ onComplete }: { onComplete: () => void }) => {
     );
 }
 
+const CAROUSEL_MOMENTUM_MS = 250; // how far a release velocity carries the strip
+const CAROUSEL_MAX_STEPS = 3;     // longest single flick, in cards
+
+const subscribeResize = (listener: () => void) => {
+  window.addEventListener('resize', listener);
+  return () => window.removeEventListener('resize', listener);
+};
+
+const useViewportWidth = () => useSyncExternalStore(subscribeResize, () => window.innerWidth);
+
 const PortalScreen = () => {
   const [activeDimension, setActiveDimension] = useState(0); 
   const [selectedRealityId, setSelectedRealityId] = useState('dragon');
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [warpPhase, setWarpPhase] = useState<'idle' | 'accelerating' | 'warped'>('idle');
+  const [travelTarget, setTravelTarget] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const orientation = useOrientation();
+  const offline = useOfflineImages();
+  const hudRef = useRef<HTMLDivElement>(null);
   const [introComplete, setIntroComplete] = useState(false);
   const [isProcessingFile, setIsProcessingFile] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
+  const [lastCapture, setLastCapture] = useState<ScanCapture | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [importIssues, setImportIssues] = useState<string[] | null>(null);
+  const [vaultFocusId, setVaultFocusId] = useState<string | null>(null);
+  const [missingRoute, setMissingRoute] = useState<string | null>(null);
+  const [routerReady, setRouterReady] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
   const nervous = useNervousSystem();
+  const analytics = useAnalytics();
+  const motionQuality = useMotionQuality();
+  const vault = useMemoryVault();
+  const allRealities = useMemo(() => vault.memories.map(m => m.reality), [vault.memories]);
 
   useEffect(() => {
     const handleInteract = () => {
@@ -1094,245 +5413,590 @@ const PortalScreen = () => {
         window.removeEventListener('click', handleInteract);
     };
     window.addEventListener('click', handleInteract);
-    return () => nervous.toggleVoidHum(false);
-  }, [nervous]);
-
-  useEffect(() => {
-      const hash = window.location.hash;
-      if (hash.includes('open')) {
-          const params = new URLSearchParams(hash.split('?')[1]);
-          const id = params.get('id');
-          if (id) {
-              const matchedReality = realities.find(r => r.id === id);
-              if (matchedReality) {
-                 setIsProcessingFile(true); 
-                 nervous.playThud();
-                 setTimeout(() => {
-                    setSelectedRealityId(matchedReality.id);
-                    setIntroComplete(true);
-                    setWarpPhase('warped');
-                    setIsProcessingFile(false);
-                 }, 1500);
-              }
-          }
-      }
+    return () => {
+        window.removeEventListener('click', handleInteract);
+        nervous.toggleVoidHum(false);
+    };
   }, [nervous]);
 
-  const corruption = useCorruption(!isTransitioning && warpPhase === 'idle' && activeDimension === 0);
-  const currentReality = useMemo(() => realities.find(r => r.id === selectedRealityId) || realities[0], [selectedRealityId]);
+  const camera = useCameraFeed(activeDimension === 1 && warpPhase === 'idle');
+  const currentReality = useMemo(() => allRealities.find(r => r.id === selectedRealityId) || allRealities[0], [allRealities, selectedRealityId]);
+  useRealityTheme(currentReality);
+  // Atmosphere, plate and particles fade across when the focused reality changes
+  const sceneLayers = useCrossfade(currentReality, currentReality.id);
+  const { corruption, purify } = useCorruption({
+    realityId: currentReality.id,
+    isActive: !isTransitioning && warpPhase === 'idle' && activeDimension === 0 && !settingsOpen,
+    stored: vault.memories.find(m => m.id === currentReality.id)?.corruption ?? 0,
+    ready: vault.ready,
+    onSettle: vault.setCorruption
+  });
+  const distortion = corruptionDistortion(corruption);
+  const [breachNotice, setBreachNotice] = useState<string | null>(null);
 
-  const handleSwitchMode = (index: number) => {
+  const handleSwitchMode = (index: number, via: 'pointer' | 'keyboard' | 'route' | 'select') => {
     if (index === activeDimension) return;
+    analytics.emit({ type: 'mode-switch', from: activeDimension, to: index, via });
     setIsTransitioning(true);
     nervous.playWhoosh();
     setTimeout(() => {
       setActiveDimension(index);
       setIsTransitioning(false);
+      setAnnouncement(`${systemModes[index].label} mode`);
     }, 500);
   };
   
   const handleCapture = () => {
       if (isScanning) return;
+      const frame = camera.grabFrame();
+      if (!frame) {
+          nervous.playThud();
+          nervous.triggerHaptic('light');
+          setAnnouncement('No camera signal to capture');
+          analytics.emit({ type: 'scan', outcome: 'no-signal' });
+          return;
+      }
+      setLastCapture(frame);
       setIsScanning(true);
+      setAnnouncement('Scanning');
       nervous.playThud();
       nervous.triggerHaptic('heavy');
-      setTimeout(() => {
-          setIsScanning(false);
-          nervous.playClick();
-      }, 2000);
+
+      // Analysis runs alongside the scanning animation; the memory lands in the Vault once both finish
+      const minimumScan = new Promise(resolve => setTimeout(resolve, 2000));
+      Promise.all([realityFromCapture(frame), minimumScan])
+        .then(([reality]) => {
+            vault.addMemory(reality, 'captured');
+            analytics.emit({ type: 'scan', outcome: 'captured', realityId: reality.id });
+            nervous.playMemoryUnlock();
+            setAnnouncement(`Scan complete. ${reality.title} stored in the Vault`);
+        })
+        .catch(err => {
+            console.log(err);
+            nervous.playThud();
+            setAnnouncement('Scan failed');
+            analytics.emit({ type: 'scan', outcome: 'failed' });
+        })
+        .finally(() => setIsScanning(false));
   };
 
+  // Each reality carries its own ambience; the hum crossfades whenever the selection changes
+  const { setSoundscape } = nervous;
+  useEffect(() => {
+    setSoundscape(resolveSoundscape(currentReality));
+  }, [currentReality, setSoundscape]);
+
+  // Corruption bleeds into the hum past the taint threshold
+  const { setDistortion } = nervous;
+  useEffect(() => {
+    setDistortion(distortion);
+  }, [distortion, setDistortion]);
+
+  // A fully corrupted reality tears loose a glitch variant into the Vault (once)
+  const stage = corruptionStage(corruption);
+  useEffect(() => {
+    if (stage !== 'breached' || isGlitchVariant(currentReality.id)) return;
+    const variant = createGlitchVariant(currentReality);
+    if (vault.memories.some(m => m.id === variant.id)) return;
+    vault.addMemory(variant, 'corrupted');
+    nervous.playThud();
+    nervous.triggerHaptic('heavy');
+    setBreachNotice(variant.title);
+    setAnnouncement(`Breach: ${variant.title} escaped to the Vault`);
+  }, [stage, currentReality.id]);
+
+  useEffect(() => {
+    if (!breachNotice) return;
+    const timer = setTimeout(() => setBreachNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [breachNotice]);
+
+  // Every arrival in the Immersive Player counts as a visit
+  useEffect(() => {
+    if (warpPhase !== 'warped') return;
+    vault.recordVisit(selectedRealityId);
+    let enteredAt = Date.now();
+    // Flushed on pagehide too, so closing the tab mid-visit still counts the time spent
+    const flushDwell = () => {
+      vault.recordDwell(selectedRealityId, Date.now() - enteredAt);
+      enteredAt = Date.now();
+    };
+    window.addEventListener('pagehide', flushDwell);
+    return () => {
+      window.removeEventListener('pagehide', flushDwell);
+      flushDwell();
+    };
+  }, [warpPhase, selectedRealityId, vault.recordVisit, vault.recordDwell]);
+
   const handleWarp = () => {
     if (warpPhase !== 'idle') return;
+    if (!offline.isAvailable(currentReality.bgImage)) {
+      nervous.playThud();
+      nervous.triggerHaptic('light');
+      setAnnouncement(`Offline. ${currentReality.title} has not been seen on this device yet`);
+      return;
+    }
     nervous.playClick();
     nervous.triggerHaptic('heavy');
     setWarpPhase('accelerating');
+    setAnnouncement(`Warping into ${currentReality.title}`);
+    analytics.emit({ type: 'warp', realityId: currentReality.id });
+    setTimeout(() => {
+      setWarpPhase('warped');
+    }, 1000);
+  };
+
+  // Linked realities warp straight into each other, reusing the accelerate / whiteout phase
+  const handleTravel = (id: string) => {
+    if (warpPhase !== 'warped') return;
+    nervous.playWhoosh();
+    nervous.triggerHaptic('heavy');
+    analytics.emit({ type: 'travel', from: currentReality.id, to: id });
+    setTravelTarget(id);
+    setWarpPhase('accelerating');
     setTimeout(() => {
+      setSelectedRealityId(id);
+      setTravelTarget(null);
       setWarpPhase('warped');
     }, 1000);
   };
   
+  // Gateway carousel: neighbours peek in at the edges, a drag moves the strip live and a flick coasts on
+  const [dragOffset, setDragOffset] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const viewportWidth = useViewportWidth();
+  const carouselSpacing = Math.min(viewportWidth * 0.75, 360); // one card width, matching w-[75vw] max-w-[360px]
+  const carouselSlots = useMemo(() => {
+    const index = allRealities.findIndex(r => r.id === currentReality.id);
+    const count = allRealities.length;
+    const seen = new Set<string>();
+    return [0, -1, 1, -2, 2].flatMap(offset => {
+      const reality = allRealities[(((index + offset) % count) + count) % count];
+      if (!reality || seen.has(reality.id)) return [];
+      seen.add(reality.id);
+      return [{ reality, offset }];
+    });
+  }, [allRealities, currentReality]);
+
+  // Warm the realities one swipe away and every linked destination so switching never flashes blank
+  useEffect(() => {
+    const index = allRealities.findIndex(r => r.id === currentReality.id);
+    if (index === -1) return;
+    const neighbours = [-2, -1, 1, 2].map(step => allRealities[(index + step + allRealities.length) % allRealities.length]);
+    const linked = resolveLinks(currentReality, allRealities).map(({ target }) => target);
+    preloadAssets([...neighbours, ...linked].filter(r => offline.isAvailable(r.bgImage)).map(r => r.bgImage));
+  }, [currentReality, allRealities, offline.isAvailable]);
+
+  const cycleReality = (step: number) => {
+    const index = allRealities.findIndex(r => r.id === currentReality.id);
+    const next = allRealities[(index + step + allRealities.length) % allRealities.length];
+    setSelectedRealityId(next.id);
+    analytics.emit({ type: 'select', realityId: next.id, source: 'swipe' });
+    nervous.playWhoosh();
+    nervous.triggerHaptic('light');
+    setAnnouncement(next.title);
+  };
+  const portalGestures = useGestures({
+    onPan: (dx, phase, velocity) => {
+      if (phase === 'end') {
+        setIsDragging(false);
+        setDragOffset(0);
+      }
+      if (activeDimension !== 0 || isTransitioning || warpPhase !== 'idle') return;
+      if (phase !== 'end') {
+        setIsDragging(true);
+        setDragOffset(dx);
+        return;
+      }
+      // Project where the strip would coast to and settle on the nearest card; a third of a card is enough to move
+      const cards = -(dx + velocity * CAROUSEL_MOMENTUM_MS) / carouselSpacing;
+      const reach = Math.min(CAROUSEL_MAX_STEPS, allRealities.length - 1);
+      if (Math.abs(cards) < 0.3 || reach < 1) return;
+      cycleReality(Math.sign(cards) * Math.min(reach, Math.max(1, Math.round(Math.abs(cards)))));
+    },
+    onSwipe: direction => {
+      if (activeDimension !== 0 || isTransitioning || warpPhase !== 'idle') return;
+      if (direction === 'up') {
+        handleWarp();
+        nervous.playThud();
+      }
+    }
+  });
+
+  // Reality files dropped anywhere on the portal
+  const handleImportFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    setIsProcessingFile(true);
+    nervous.playThud();
+
+    Promise.all(files.map(file => file.text().then(text => {
+      try {
+        return parseRealityFile(text);
+      } catch (err) {
+        if (err instanceof RealityFileError) throw new RealityFileError(err.issues.map(issue => `${file.name}: ${issue}`));
+        throw err;
+      }
+    })))
+      .then(results => {
+        const taken = new Set(vault.memories.filter(m => m.origin === 'builtin' || m.origin === 'unlocked').map(m => m.id));
+        lockedMemories.forEach(lock => taken.add(lock.reality.id));
+        // Never overwrite built-in or sealed realities, nor another reality from this same drop;
+        // re-importing a user memory replaces it
+        const placed = results.flatMap(fileRealities => {
+          const renamed = new Map<string, string>();
+          fileRealities.forEach(reality => {
+            let id = reality.id;
+            for (let n = 2; taken.has(id); n++) id = `${reality.id}-${n}`;
+            taken.add(id);
+            renamed.set(reality.id, id);
+          });
+          // Links inside a file follow their renamed targets
+          return fileRealities.map(reality => ({
+            ...reality,
+            id: renamed.get(reality.id)!,
+            ...(reality.links ? { links: reality.links.map(link => ({ ...link, to: renamed.get(link.to) ?? link.to })) } : {})
+          }));
+        });
+        const known = new Set([...allRealities, ...placed].map(r => r.id));
+        lockedMemories.forEach(lock => known.add(lock.reality.id));
+        const dangling = findDanglingLinks(placed, known);
+        if (dangling.length > 0) throw new RealityFileError(dangling);
+        placed.forEach(reality => vault.addMemory(reality, 'imported'));
+        nervous.playMemoryUnlock();
+        setAnnouncement(`Imported ${placed.map(r => r.title).join(', ')}`);
+        setSelectedRealityId(placed[placed.length - 1].id);
+      })
+      .catch(err => {
+        nervous.playThud();
+        nervous.triggerHaptic('heavy');
+        setImportIssues(err instanceof RealityFileError ? err.issues : [String(err?.message ?? err)]);
+      })
+      .finally(() => setIsProcessingFile(false));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!Array.from(e.dataTransfer.types).includes('Files')) return;
+    e.preventDefault();
+    if (!isDraggingFile) setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    handleImportFiles(Array.from(e.dataTransfer.files) as File[]);
+  };
+
   const handleSelectReality = (id: string) => {
       setSelectedRealityId(id);
-      handleSwitchMode(0); 
+      handleSwitchMode(0, 'select'); 
+  };
+
+  // --- Router: hash -> state ---
+  const applyRoute = (route: Route, isInitial: boolean) => {
+    const knownIds = new Set(allRealities.map(r => r.id));
+    setMissingRoute(null);
+
+    if (route.name === 'unknown') {
+      setMissingRoute(route.path);
+      return;
+    }
+    if ((route.name === 'reality' || route.name === 'vault') && route.id && !knownIds.has(route.id)) {
+      setMissingRoute(route.id);
+      return;
+    }
+
+    if (route.name === 'reality') {
+      setSelectedRealityId(route.id);
+      setIntroComplete(true);
+      if (!isInitial) {
+        setWarpPhase('warped');
+        return;
+      }
+      setIsProcessingFile(true);
+      nervous.playThud();
+      setTimeout(() => {
+        setWarpPhase('warped');
+        setIsProcessingFile(false);
+      }, 1500);
+      return;
+    }
+
+    if (warpPhase !== 'idle') setWarpPhase('idle');
+    if (route.name === 'vault') {
+      setVaultFocusId(route.id ?? null);
+      if (route.id) setSelectedRealityId(route.id);
+    }
+    const index = dimensionRoutes.indexOf(route.name);
+    if (isInitial) setActiveDimension(index);
+    else handleSwitchMode(index, 'route');
+  };
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+
+  // Captured and imported ids are only known once the memory store has loaded
+  useEffect(() => {
+    if (!vault.ready) return;
+    const route = parseRoute(window.location.hash);
+    if (window.location.hash.startsWith('#open')) window.history.replaceState(null, '', formatRoute(route));
+    applyRouteRef.current(route, true);
+    setRouterReady(true);
+
+    const handlePopState = () => applyRouteRef.current(parseRoute(window.location.hash), false);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [vault.ready]);
+
+  // --- Router: state -> hash ---
+  // The first sync only normalizes the URL it was loaded with (e.g. "" -> "#/"), so it must not add a Back step
+  const hashSyncedRef = useRef(false);
+  useEffect(() => {
+    if (!routerReady || missingRoute || isTransitioning || warpPhase === 'accelerating' || isProcessingFile) return;
+    const route: Route = warpPhase === 'warped'
+      ? { name: 'reality', id: selectedRealityId }
+      : activeDimension === 2
+        ? { name: 'vault', id: vaultFocusId ?? undefined }
+        : { name: dimensionRoutes[activeDimension] as 'portal' | 'scanner' | 'studio' };
+    const hash = formatRoute(route);
+    if (hash !== window.location.hash) {
+      if (hashSyncedRef.current) window.history.pushState(null, '', hash);
+      else window.history.replaceState(null, '', hash);
+    }
+    hashSyncedRef.current = true;
+  }, [routerReady, missingRoute, isTransitioning, warpPhase, isProcessingFile, activeDimension, selectedRealityId, vaultFocusId]);
+
+  // Keyboard focus follows the active dimension, unless the user is arrowing through the HUD
+  useEffect(() => {
+    if (!introComplete || isTransitioning || warpPhase !== 'idle' || settingsOpen) return;
+    if (hudRef.current?.contains(document.activeElement)) return;
+    const target = activeDimension === 2 && vaultFocusId
+      ? `[data-memory-id="${CSS.escape(vaultFocusId)}"]`
+      : `[data-dimension="${systemModes[activeDimension].id}"]`;
+    document.querySelector<HTMLElement>(target)?.focus({ preventScroll: true });
+  }, [activeDimension, isTransitioning, introComplete, warpPhase, settingsOpen, vaultFocusId]);
+
+  // Escape dismisses the import report
+  useEffect(() => {
+    if (!importIssues) return;
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') setImportIssues(null); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [importIssues]);
+
+  // Focus only applies to the visit that deep-linked it
+  useEffect(() => {
+    if (activeDimension !== 2) setVaultFocusId(null);
+  }, [activeDimension]);
+
+  const leaveMissingRoute = () => {
+    nervous.playClick();
+    setMissingRoute(null);
+    setWarpPhase('idle');
+    setActiveDimension(0);
   };
 
-  if (warpPhase === 'warped') {
-    return <ImmersivePlayer reality={currentReality} onExit={() => setWarpPhase('idle')} />;
+  if ((warpPhase === 'warped' || travelTarget) && !missingRoute) {
+    return (
+      <ImmersivePlayer
+        reality={currentReality}
+        paths={resolveLinks(currentReality, allRealities).filter(({ target }) => offline.isAvailable(target.bgImage))}
+        offline={!offline.isAvailable(currentReality.bgImage)}
+        departing={!!travelTarget}
+        onTravel={handleTravel}
+        onExit={() => setWarpPhase('idle')}
+      />
+    );
   }
 
   return (
-    <div className="relative h-screen w-full overflow-hidden bg-[#0A0010] font-display text-white selection:bg-cyan-500/30">
+    <div 
+      className="relative h-screen w-full overflow-hidden bg-theme-bg font-display text-theme-text selection:bg-theme-glow/30"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDraggingFile(false); }}
+      onDrop={handleDrop}
+    >
       
+      <LiveRegion message={announcement} />
+
+      {!offline.online && (
+        <div className="fixed top-[calc(1.5rem+env(safe-area-inset-top))] left-1/2 -translate-x-1/2 z-[60] flex items-center gap-2 px-3 py-1 rounded-full border border-amber-400/30 bg-black/60 backdrop-blur-md pointer-events-none" role="status">
+          <span className="material-symbols-outlined text-sm text-amber-300/80" aria-hidden="true">cloud_off</span>
+          <span className="font-rajdhani text-[9px] tracking-[0.3em] text-amber-200/80 uppercase">Offline · Seen realities only</span>
+        </div>
+      )}
+
       {!introComplete && <CinematicIntro onComplete={() => setIntroComplete(true)} />}
 
-      {isProcessingFile && (
-          <div className="fixed inset-0 z-[300] bg-black/80 backdrop-blur-md flex flex-col items-center justify-center transition-opacity duration-300">
-             <div className="w-16 h-16 border-t-2 border-cyan-400 rounded-full animate-spin mb-4"></div>
-             <span className="font-rajdhani text-sm tracking-[0.3em] text-cyan-400 animate-pulse">PARSING DATA...</span>
+      {isDraggingFile && (
+          <div className="fixed inset-0 z-[300] pointer-events-none flex items-center justify-center border-2 border-dashed border-theme-accent-safe/60 bg-theme-bg/60 backdrop-blur-sm">
+             <span className="font-rajdhani text-sm tracking-[0.3em] text-theme-accent-safe animate-pulse">RELEASE TO INGEST REALITY</span>
           </div>
       )}
-      
-      <style>{`
-        .bg-noise {
-          background-image: url("data:image/svg+xml,%3Csvg viewBox='0 0 200 200' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.65' numOctaves='3' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)' opacity='1'/%3E%3C/svg%3E");
-        }
-        .text-shadow-glow { text-shadow: 0 0 10px rgba(255, 255, 255, 0.5), 0 0 20px rgba(255, 255, 255, 0.3); }
-        @keyframes pan-video { 0% { transform: scale(1.0); } 100% { transform: scale(1.2); } }
-        @keyframes rotate-bg { 0% { transform: rotate(0deg) scale(1.5); } 100% { transform: rotate(360deg) scale(1.5); } }
-        @keyframes pan-rays { 0% { background-position: 0% 50%; opacity: 0.3; } 50% { background-position: 100% 50%; opacity: 0.6; } 100% { background-position: 0% 50%; opacity: 0.3; } }
-        .animate-spin-very-slow { animation: rotate-bg 60s linear infinite; }
-        .animate-pan-rays { animation: pan-rays 10s ease-in-out infinite; background-size: 200% 200%; }
-        .animate-spin-slow { animation: spin-slow 4s linear infinite; }
-        .animate-pulse-slow { animation: pulse-slow 3s ease-in-out infinite; }
-        .animate-shockwave { animation: shockwave 0.6s ease-out; }
-        @keyframes liquid-border { 
-            0% { border-radius: 60% 40% 30% 70% / 60% 30% 70% 40%; }
-            33% { border-radius: 50% 50% 60% 40% / 50% 60% 40% 60%; }
-            66% { border-radius: 40% 60% 50% 50% / 40% 50% 60% 50%; }
-            100% { border-radius: 60% 40% 30% 70% / 60% 30% 70% 40%; }
-        }
-        .animate-liquid-border { animation: liquid-border 8s ease-in-out infinite alternate; }
-        @keyframes border-flow { 0% { background-position: 0% 50%; } 50% { background-position: 100% 50%; } 100% { background-position: 0% 50%; } }
-        @keyframes portal-pulse { 
-            0% { transform: scale(1); filter: brightness(1); } 
-            50% { transform: scale(1.15); filter: brightness(1.3); } 
-            100% { transform: scale(1); filter: brightness(1); } 
-        }
-        .animate-portal-pulse { animation: portal-pulse 6s ease-in-out infinite; }
-        @keyframes portal-pulse-glow { 0% { transform: scale(1); opacity: 0.4; } 50% { transform: scale(1.4); opacity: 0.8; } 100% { transform: scale(1); opacity: 0.4; } }
-        .animate-portal-pulse-glow { animation: portal-pulse-glow 6s ease-in-out infinite; }
-        @keyframes shimmer-flow { 0% { background-position: 200% 0; } 100% { background-position: -200% 0; } }
-        @keyframes float-out { 0% { transform: translate(-50%, -50%) scale(0); opacity: 0; } 20% { opacity: 1; } 100% { transform: translate(var(--tx), var(--ty)) scale(1); opacity: 0; } }
-        @keyframes shimmer-burst { 0% { transform: translate(-50%, -50%) scale(0); opacity: 0; } 50% { opacity: 1; } 100% { transform: translate(var(--tx), var(--ty)) scale(1.5); opacity: 0; } }
-        @keyframes spark-rise { 
-            0% { transform: translate(0, 0) scale(1); opacity: 0; } 
-            20% { opacity: 1; } 
-            100% { transform: translate(var(--tx), var(--ty)) scale(0); opacity: 0; } 
-        }
-        .animate-fade-in-slow { animation: fadeIn 2s ease-out forwards; }
-        .animate-slide-up-fade { animation: slideUpFade 1s ease-out forwards; opacity: 0; animation-delay: 0.5s; }
-        .animate-scale-up-fade { animation: scaleUpFade 1.2s cubic-bezier(0.2, 0.8, 0.2, 1) forwards; opacity: 0; animation-delay: 0.8s; }
-        .animate-fade-in-delay { animation: fadeIn 1.5s ease-out forwards; opacity: 0; animation-delay: 1.5s; }
-        @keyframes fadeIn { from { opacity: 0; } to { opacity: 1; } }
-        @keyframes slideUpFade { from { opacity: 0; transform: translateY(20px); } to { opacity: 1; transform: translateY(0); } }
-        @keyframes scaleUpFade { from { opacity: 0; transform: scale(0.9); } to { opacity: 1; transform: scale(1); } }
-        @keyframes float-y { 0%, 100% { transform: translateY(0); } 50% { transform: translateY(-10px); } }
-        @keyframes smoke-drift { 0% { transform: translateX(0) scale(1); opacity: 0.1; } 50% { transform: translateX(20px) scale(1.2); opacity: 0.2; } 100% { transform: translateX(0) scale(1); opacity: 0.1; } }
-        .animate-smoke-drift { animation: smoke-drift 20s ease-in-out infinite; }
-        @keyframes twinkle { 0%, 100% { opacity: 0.2; transform: scale(1); } 50% { opacity: 0.8; transform: scale(1.5); } }
-        .animate-twinkle { animation: twinkle 3s ease-in-out infinite; }
-        @keyframes glitch-bar { 0% { transform: translateX(-100%); opacity: 0; } 50% { opacity: 1; } 100% { transform: translateX(100%); opacity: 0; } }
-        .animate-glitch-bar { animation: glitch-bar 2s linear infinite; }
-        @keyframes neon-pulse { 0%, 100% { opacity: 0.3; filter: hue-rotate(0deg); } 50% { opacity: 0.6; filter: hue-rotate(20deg); } }
-        .animate-neon-pulse { animation: neon-pulse 4s ease-in-out infinite; }
-        @keyframes light-shaft { 0%, 100% { opacity: 0.1; transform: rotate(25deg) scaleX(1); } 50% { opacity: 0.25; transform: rotate(25deg) scaleX(1.3); } }
-        .animate-light-shaft { animation: light-shaft 12s ease-in-out infinite; }
-        @keyframes firefly-burst { 0%, 80% { transform: translate(0,0); opacity: 0; } 85% { opacity: 1; } 90% { transform: translate(10px, -10px); opacity: 1; } 100% { transform: translate(20px, -20px); opacity: 0; } }
-        .animate-firefly-burst { animation: firefly-burst 8s ease-out infinite; }
-        @keyframes breath-slow { 0%, 100% { transform: scale(1); } 50% { transform: scale(1.05); } }
-        .animate-breath-slow { animation: breath-slow 6s ease-in-out infinite; }
-        @keyframes float-slow { 0%, 100% { transform: translateY(0); } 50% { transform: translateY(-10px); } }
-        .animate-float-slow { animation: float-slow 6s ease-in-out infinite; }
-        @keyframes grid-scroll { 0% { background-position: 0 0; } 100% { background-position: 0 40px; } }
-        .animate-data-stream { animation: grid-scroll 3s linear infinite; }
-        
-        @keyframes portal-drift {
-            0% { transform: translate(0,0) rotate(0deg); }
-            25% { transform: translate(4px, -6px) rotate(1deg); }
-            50% { transform: translate(-3px, 5px) rotate(-0.5deg); }
-            75% { transform: translate(-5px, -3px) rotate(0.5deg); }
-            100% { transform: translate(0,0) rotate(0deg); }
-        }
-        .animate-portal-drift { animation: portal-drift 12s ease-in-out infinite; }
-        
-        @keyframes portal-spin {
-             0% { transform: scale(1.2) rotate(0deg); }
-             100% { transform: scale(1.2) rotate(360deg); }
-        }
-        .animate-portal-spin { animation: portal-spin 60s linear infinite; }
-        
-        @keyframes warp-spin {
-             0% { transform: scale(1.4) rotate(0deg); filter: contrast(1.5) saturate(1.5) hue-rotate(0deg); }
-             100% { transform: scale(1.4) rotate(-360deg); filter: contrast(1.5) saturate(1.5) hue-rotate(90deg); }
-        }
-        .animate-warp-spin { animation: warp-spin 20s linear infinite; }
-        
-        @keyframes atmosphere-leak {
-             0% { transform: translate(0,0) scale(0); opacity: 0; }
-             20% { opacity: 1; }
-             100% { transform: translate(var(--tx), var(--ty)) scale(1.5); opacity: 0; }
-        }
 
-        @keyframes magical-flow {
-            0% { transform: scale(0); opacity: 0; filter: blur(2px); }
-            40% { opacity: 0.8; filter: blur(0px); }
-            100% { transform: scale(2.5) translate(var(--tx), var(--ty)); opacity: 0; filter: blur(4px); }
-        }
-        
-        @keyframes liquid-swirl {
-            0% { transform: rotate(0deg) scale(1); filter: hue-rotate(0deg); }
-            50% { transform: rotate(180deg) scale(1.1); filter: hue-rotate(15deg); }
-            100% { transform: rotate(360deg) scale(1); filter: hue-rotate(0deg); }
-        }
-        .animate-liquid-swirl { animation: liquid-swirl 15s linear infinite; }
+      {missingRoute && (
+          <div role="alertdialog" aria-label="Reality not found" className="fixed inset-0 z-[300] bg-theme-bg/90 backdrop-blur-md flex flex-col items-center justify-center p-6 text-center">
+             <span className="material-symbols-outlined text-5xl text-white/20 mb-6" aria-hidden="true">blur_off</span>
+             <span className="font-cinzel text-2xl tracking-[0.2em] text-white">REALITY NOT FOUND</span>
+             <span className="mt-3 font-rajdhani text-xs tracking-[0.3em] text-white/40 break-all">{missingRoute}</span>
+             <button
+               autoFocus
+               className="mt-10 px-5 py-2 rounded-full border border-white/20 font-rajdhani text-[10px] tracking-[0.3em] text-white/70 hover:text-white hover:border-white/60 transition-colors"
+               onClick={leaveMissingRoute}
+             >
+               RETURN TO PORTAL
+             </button>
+          </div>
+      )}
 
-        @keyframes energy-crackle {
-            0%, 100% { opacity: 0; transform: scaleX(1); }
-            10% { opacity: 0.8; transform: scaleX(1.5) skewX(20deg); }
-            20% { opacity: 0; }
-            60% { opacity: 0.6; transform: scaleX(0.8) skewX(-10deg); }
-        }
-        .animate-energy-crackle { animation: energy-crackle 2s linear infinite; }
-        
-        @keyframes singularity-pulse {
-            0% { transform: scale(1) rotate(0deg); opacity: 0.8; border-radius: 40% 60% 50% 50% / 50% 50% 60% 40%; }
-            33% { transform: scale(1.1) rotate(120deg); opacity: 1; border-radius: 60% 40% 30% 70% / 60% 30% 70% 40%; }
-            66% { transform: scale(0.9) rotate(240deg); opacity: 0.9; border-radius: 50% 50% 60% 40% / 40% 60% 50% 50%; }
-            100% { transform: scale(1) rotate(360deg); opacity: 0.8; border-radius: 40% 60% 50% 50% / 50% 50% 60% 40%; }
-        }
-        .animate-singularity { animation: singularity-pulse 4s linear infinite; }
-        
-        @keyframes wobble {
-            0% { border-radius: 40% 60% 50% 50% / 50% 50% 60% 40%; transform: rotate(0deg); }
-            25% { border-radius: 50% 50% 40% 60% / 60% 40% 50% 50%; }
-            50% { border-radius: 60% 40% 60% 40% / 40% 60% 40% 60%; transform: rotate(180deg); }
-            75% { border-radius: 50% 50% 50% 50% / 50% 50% 50% 50%; }
-            100% { border-radius: 40% 60% 50% 50% / 50% 50% 60% 40%; transform: rotate(360deg); }
-        }
-        .animate-wobble { animation: wobble 8s linear infinite; }
-      `}</style>
+      {importIssues && (
+          <div className="fixed inset-0 z-[300] bg-black/80 backdrop-blur-md flex items-center justify-center p-6" onClick={() => setImportIssues(null)}>
+             <div role="alert" className="max-w-md w-full border border-red-500/40 bg-black/60 rounded-lg p-6">
+                <span className="font-rajdhani text-sm tracking-[0.3em] text-red-400">REALITY REJECTED</span>
+                <ul className="mt-4 space-y-2 max-h-[50vh] overflow-y-auto no-scrollbar">
+                   {importIssues.map((issue, i) => (
+                      <li key={i} className="font-rajdhani text-xs text-white/70 leading-relaxed">{issue}</li>
+                   ))}
+                </ul>
+                <span className="mt-6 block font-rajdhani text-[10px] tracking-[0.3em] text-white/40">TAP OR PRESS ESC TO DISMISS</span>
+             </div>
+          </div>
+      )}
+
+      {isProcessingFile && (
+          <div role="status" className="fixed inset-0 z-[300] bg-black/80 backdrop-blur-md flex flex-col items-center justify-center transition-opacity duration-300">
+             <div className="w-16 h-16 border-t-2 border-theme-accent-safe rounded-full animate-spin mb-4" aria-hidden="true"></div>
+             <span className="font-rajdhani text-sm tracking-[0.3em] text-theme-accent-safe animate-pulse">PARSING DATA...</span>
+          </div>
+      )}
       
       {/* Warp Whiteout */}
       <div className={`pointer-events-none fixed inset-0 z-[100] bg-white transition-opacity duration-500 ease-in delay-300`} style={{ opacity: warpPhase === 'accelerating' ? 1 : 0 }} />
 
       {/* Background Stack (z-0) */}
-      <div className="absolute inset-0 z-0 overflow-hidden bg-[#0A0010]">
-          <DynamicAtmosphere atmosphereType={currentReality.atmosphereType} color={currentReality.themeColor} />
-          <div className="absolute top-[-50%] left-[-50%] w-[200%] h-[200%] animate-spin-very-slow opacity-60"
-            style={{ background: `radial-gradient(circle at center, ${currentReality.themeColor}20 0%, #0A0010 60%, #000 100%)` }} />
-          <div className="absolute inset-0 bg-cover bg-center transition-all duration-[1000ms] ease-in-out opacity-20 blur-2xl mix-blend-screen"
-            style={{ backgroundImage: `url("${currentReality.bgImage}")` }} />
+      <div className="absolute inset-0 z-0 overflow-hidden bg-theme-bg">
+          {sceneLayers.map(({ key, item: reality, leaving }) => (
+            <div key={key} className={`absolute inset-0 ${leaving ? 'opacity-0 transition-opacity duration-1000' : anim('crossfade-in')}`}>
+              <DynamicAtmosphere atmosphereType={reality.atmosphereType} color={reality.themeColor} accent={reality.particleColor} params={reality.atmosphereParams} />
+            </div>
+          ))}
+          {/* Corruption: a glitch atmosphere bleeds over the reality's own past the taint threshold */}
+          {distortion > 0 && currentReality.atmosphereType !== 'glitch' && (
+            <div className="absolute inset-0 transition-opacity duration-1000" style={{ opacity: distortion, filter: `hue-rotate(${distortion * 90}deg)` }}>
+              <DynamicAtmosphere atmosphereType="glitch" color={currentReality.themeColor} />
+            </div>
+          )}
+          <div className={`absolute top-[-50%] left-[-50%] w-[200%] h-[200%] opacity-60 ${motionQuality === 'minimal' ? '' : anim('spin-very-slow')}`}
+            style={{ background: 'radial-gradient(circle at center, color-mix(in srgb, var(--theme-glow) 12%, transparent) 0%, var(--theme-bg) 60%, #000 100%)' }} />
+          {sceneLayers.map(({ key, item: reality, leaving }) => (
+            <div key={key} className={`absolute inset-0 ${leaving ? 'opacity-0 transition-opacity duration-1000' : anim('crossfade-in')}`}>
+              <BackdropImage reality={reality} />
+            </div>
+          ))}
       </div>
       <div className="bg-noise absolute inset-0 z-0 mix-blend-overlay opacity-[0.07] pointer-events-none"></div>
-      <div className="absolute inset-0 z-0 bg-gradient-to-tr from-transparent via-white/5 to-transparent skew-x-12 animate-pan-rays pointer-events-none"></div>
+      <div className={`absolute inset-0 z-0 bg-gradient-to-tr from-transparent via-white/5 to-transparent skew-x-12 pointer-events-none ${motionQuality === 'minimal' ? 'opacity-30' : anim('pan-rays')}`}></div>
       
       {/* Particles only in Gateway mode - Mobile Friendly */}
-      {activeDimension === 0 && <TakingOverParticles corruption={isTransitioning || warpPhase === 'accelerating' ? 0 : corruption} color={currentReality.particleColor} speed={currentReality.id === 'dragon' ? 'fast' : (currentReality.id === 'cosmic' ? 'slow' : 'normal')} shape={currentReality.particleShape} />}
+      {activeDimension === 0 && sceneLayers.filter(layer => !layer.leaving || motionQuality === 'full').map(({ key, item: reality, leaving }) => (
+        <div key={key} className={`absolute inset-0 pointer-events-none ${leaving ? 'opacity-0 transition-opacity duration-1000' : anim('crossfade-in')}`}>
+          <TakingOverParticles corruption={isTransitioning || warpPhase === 'accelerating' ? 0 : corruption} color={reality.particleColor} speed={reality.id === 'dragon' ? 'fast' : (reality.id === 'cosmic' ? 'slow' : 'normal')} shape={reality.particleShape} />
+        </div>
+      ))}
 
       {/* 1. Gateway (Portal) (z-10) */}
-      <div className={`absolute inset-0 flex items-center justify-center z-10 transition-all duration-500 ${activeDimension === 0 && !isTransitioning ? 'opacity-100 scale-100' : 'opacity-0 scale-90 pointer-events-none'} ${warpPhase === 'accelerating' ? 'scale-[30] rotate-1 blur-sm opacity-100' : ''}`}>
-          <CinematicCard reality={currentReality} corruption={corruption} onWarp={handleWarp} />
+      <div role="region" aria-label="Portal" inert={activeDimension !== 0 || isTransitioning} {...portalGestures} style={{ touchAction: 'none', ...pausedAnimations(activeDimension !== 0 && !isTransitioning) }} className={`absolute inset-0 flex items-center justify-center z-10 transition-all duration-500 ${activeDimension === 0 && !isTransitioning ? 'opacity-100 scale-100' : 'opacity-0 scale-90 pointer-events-none'} ${warpPhase === 'accelerating' ? 'scale-[30] rotate-1 blur-sm opacity-100' : ''}`}>
+          <div
+            className="relative"
+            style={{ perspective: '1200px', transformStyle: 'preserve-3d' }}
+            aria-roledescription="carousel"
+            aria-label="Realities"
+            onKeyDown={(e: React.KeyboardEvent) => {
+              if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+              e.preventDefault();
+              cycleReality(e.key === 'ArrowRight' ? 1 : -1);
+            }}
+          >
+            {carouselSlots.map(({ reality, offset }) => {
+              const position = offset + dragOffset / carouselSpacing;
+              const distance = Math.min(Math.abs(position), 2);
+              return (
+                <div
+                  key={reality.id}
+                  aria-hidden={offset !== 0 || undefined}
+                  className={`${offset === 0 ? 'relative' : 'absolute inset-0 flex items-center justify-center'} ${isDragging || motionQuality === 'minimal' ? '' : 'transition-[transform,opacity,filter] duration-500 ease-out'}`}
+                  style={{
+                    transform: `translateX(${position * carouselSpacing * 0.8}px) translateZ(${-distance * 120}px) rotateY(${position * -35}deg) scale(${1 - distance * 0.12})`,
+                    opacity: 1 - distance * 0.35,
+                    zIndex: 10 - Math.round(distance * 2),
+                    filter: offset === 0 ? undefined : `blur(${distance * 2}px)`
+                  }}
+                >
+                  {offset === 0 ? (
+                    <>
+                      <CinematicCard reality={reality} corruption={corruption} onWarp={handleWarp} />
+                      {!offline.isAvailable(reality.bgImage) && (
+                        <div className="absolute -bottom-16 left-1/2 -translate-x-1/2 flex items-center gap-2 whitespace-nowrap px-3 py-1.5 rounded-full border border-white/10 bg-black/60 backdrop-blur-md pointer-events-none">
+                          <span className="material-symbols-outlined text-sm text-white/50" aria-hidden="true">cloud_off</span>
+                          <span className="font-rajdhani text-[9px] tracking-[0.3em] text-white/60 uppercase">Not yet seen · Reconnect to enter</span>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <RealityPeek reality={reality} onSelect={() => cycleReality(offset)} />
+                  )}
+                </div>
+              );
+            })}
+          </div>
       </div>
 
       {/* 2. Scanner (z-40) - Full Screen Overlay */}
-      <ScannerDimension active={activeDimension === 1 && !isTransitioning} isScanning={isScanning} />
+      <ScannerDimension active={activeDimension === 1 && !isTransitioning} isScanning={isScanning} camera={camera} capture={lastCapture} />
 
       {/* 3. Vault (z-40) - Full Screen Overlay */}
-      <VaultDimension active={activeDimension === 2 && !isTransitioning} onSelectReality={handleSelectReality} />
+      <VaultDimension active={activeDimension === 2 && !isTransitioning} memories={vault.memories} isAvailable={offline.isAvailable} onSelectReality={handleSelectReality} onUnlock={lock => vault.addMemory(lock.reality, 'unlocked')} focusedId={vaultFocusId} />
+      
+      {/* 4. Studio (z-40) - Full Screen Overlay */}
+      <StudioDimension 
+         active={activeDimension === 3 && !isTransitioning} 
+         seed={currentReality} 
+         onSave={reality => vault.addMemory(reality, 'authored')} 
+      />
       
+      {/* Corruption HUD (z-50) */}
+      <div inert={activeDimension !== 0 || isTransitioning || warpPhase !== 'idle'} className={`absolute top-[calc(1.5rem+env(safe-area-inset-top))] left-6 z-50 transition-opacity duration-500 ${activeDimension === 0 && !isTransitioning && warpPhase === 'idle' ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+        <CorruptionMeter corruption={corruption} onPurify={purify} />
+      </div>
+
+      {breachNotice && (
+        <div className={`fixed top-[calc(5rem+env(safe-area-inset-top))] left-1/2 -translate-x-1/2 z-[150] px-4 py-2 rounded-full border border-fuchsia-500/40 bg-black/70 backdrop-blur-md ${anim('fade-in-slow')} pointer-events-none`}>
+          <span className="font-rajdhani text-[10px] tracking-[0.3em] text-fuchsia-300 uppercase">Breach: {breachNotice} escaped to the Vault</span>
+        </div>
+      )}
+
+      {/* Settings (z-50) */}
+      <button
+        className={`absolute top-[calc(1.5rem+env(safe-area-inset-top))] right-6 z-50 size-10 rounded-full flex items-center justify-center bg-black/40 border border-white/10 text-white/40 backdrop-blur-md hover:text-white hover:border-white/40 transition-all duration-500 ${warpPhase === 'accelerating' ? 'opacity-0' : ''}`}
+        onClick={() => { nervous.playClick(); setSettingsOpen(true); }}
+        aria-label="Settings"
+        aria-haspopup="dialog"
+      >
+        <span className="material-symbols-outlined text-xl" aria-hidden="true">tune</span>
+      </button>
+      <SettingsPanel open={settingsOpen} onClose={() => setSettingsOpen(false)} realities={allRealities} />
+
+      {/* iOS only releases the gyroscope after a tap on something like this */}
+      {orientation.enabled && orientation.status === 'prompt' && activeDimension === 0 && warpPhase === 'idle' && (
+        <button
+          className={`absolute top-[calc(5rem+env(safe-area-inset-top))] right-6 z-50 flex items-center gap-2 px-3 py-1.5 rounded-full border border-white/10 bg-black/40 backdrop-blur-md font-rajdhani text-[9px] tracking-[0.3em] text-white/60 uppercase hover:text-white hover:border-white/40 transition-colors ${anim('fade-in-slow')}`}
+          onClick={() => { nervous.playClick(); orientation.setEnabled(true); }}
+        >
+          <span className="material-symbols-outlined text-sm" aria-hidden="true">screen_rotation</span>
+          Enable Tilt
+        </button>
+      )}
+
       {/* Bottom Controls (z-50) */}
-      <div className={`absolute bottom-0 left-0 right-0 z-50 pb-6 transition-transform duration-500 ${warpPhase === 'accelerating' ? 'translate-y-full opacity-0' : ''}`}>
+      <div ref={hudRef} className={`absolute bottom-0 left-0 right-0 z-50 pb-6 transition-transform duration-500 ${warpPhase === 'accelerating' ? 'translate-y-full opacity-0' : ''}`}>
          <OrbitalHud 
             currentMode={activeDimension} 
             onSwitchMode={handleSwitchMode} 
@@ -1345,8 +6009,21 @@ const PortalScreen = () => {
   );
 };
 
+registerServiceWorker();
+installAnimations();
+
 const container = document.getElementById('root');
 if (container) {
   const root = createRoot(container);
-  root.render(<PortalScreen />);
+  root.render(
+    <NervousSystemProvider>
+      <AnalyticsProvider>
+        <MotionProvider>
+          <OrientationProvider>
+            <PortalScreen />
+          </OrientationProvider>
+        </MotionProvider>
+      </AnalyticsProvider>
+    </NervousSystemProvider>
+  );
 }
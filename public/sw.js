@@ -0,0 +1,128 @@
+// Jeeni service worker: app shell + fonts precached on install, reality images cached the first time they are seen.
+// Cache names are shared with index.tsx (Offline section); bump the version to drop old caches.
+
+const SHELL_CACHE = 'jeeni-shell-v1';
+const FONT_CACHE = 'jeeni-fonts-v1';
+const REALITY_IMAGE_CACHE = 'jeeni-realities-v1';
+const REALITY_IMAGE_LIMIT = 80; // least recently used images are dropped past this
+const CACHES = [SHELL_CACHE, FONT_CACHE, REALITY_IMAGE_CACHE];
+
+// External pieces of the shell referenced from index.html
+const SHELL_EXTERNALS = [
+  'https://cdn.tailwindcss.com?plugins=forms,container-queries',
+  'https://fonts.googleapis.com/css2?family=Space+Grotesk:wght@300;400;500;600;700&display=swap',
+  'https://fonts.googleapis.com/css2?family=Cinzel:wght@400;600;700;800&family=Rajdhani:wght@300;400;500;600;700&display=swap',
+  'https://fonts.googleapis.com/css2?family=Material+Symbols+Outlined:wght,FILL@100..700,0..1&display=swap',
+];
+
+const IMAGE_HOSTS = ['lh3.googleusercontent.com', 'images.unsplash.com'];
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+// Same-origin scripts and styles are read out of index.html, so hashed build files are precached too
+const shellAssets = async () => {
+  const response = await fetch('/', { cache: 'reload' });
+  const html = await response.clone().text();
+  const local = [...html.matchAll(/(?:src|href)="(\/[^"]*)"/g)].map(match => match[1]);
+  return { response, assets: [...new Set(['/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png', ...local])] };
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    const { response, assets } = await shellAssets();
+    await shell.put('/', response);
+    await shell.addAll(assets);
+    // Opaque cross-origin responses cannot be checked, so a CDN hiccup must not fail the install
+    await Promise.all(SHELL_EXTERNALS.map(url =>
+      fetch(url, { mode: 'no-cors' }).then(res => caches.open(url.includes('fonts.') ? FONT_CACHE : SHELL_CACHE).then(cache => cache.put(url, res))).catch(() => {})
+    ));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('jeeni-') && !CACHES.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Re-putting a hit moves it to the end of the key order, so the front of the cache is least recently used
+const trimRealityImages = async cache => {
+  const keys = await cache.keys();
+  const evicted = keys.slice(0, Math.max(0, keys.length - REALITY_IMAGE_LIMIT));
+  await Promise.all(evicted.map(key => cache.delete(key)));
+  evicted.forEach(key => notifyClients({ type: 'reality-image-evicted', url: key.url }));
+};
+
+// Only readable (CORS) successful responses are cached: an opaque error page would otherwise be kept as the image forever.
+// Hosts that refuse CORS still load, straight from the network
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request.url, { ignoreVary: true });
+  if (cached) {
+    if (cacheName === REALITY_IMAGE_CACHE) cache.put(request.url, cached.clone()).catch(() => {});
+    return cached;
+  }
+  const response = await fetch(new Request(request.url, { mode: 'cors', credentials: 'omit' })).catch(() => null);
+  if (!response) return fetch(request);
+  if (response.ok) {
+    await cache.put(request.url, response.clone());
+    if (cacheName === REALITY_IMAGE_CACHE) {
+      notifyClients({ type: 'reality-image-cached', url: request.url });
+      await trimRealityImages(cache);
+    }
+  }
+  return response;
+};
+
+// Network first keeps development and fresh deploys current; the cache only answers when offline
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(fallbackUrl ?? request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(fallbackUrl ?? request, { ignoreSearch: !!fallbackUrl });
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+const notifyClients = async message => {
+  const clients = await self.clients.matchAll();
+  clients.forEach(client => client.postMessage(message));
+};
+
+// Images the page loaded before this worker controlled it
+const cacheLoadedImages = async urls => {
+  const cache = await caches.open(REALITY_IMAGE_CACHE);
+  await Promise.all(urls.filter(url => IMAGE_HOSTS.includes(new URL(url).hostname)).map(async url => {
+    if (await cache.match(url, { ignoreVary: true })) return;
+    await cacheFirst(new Request(url), REALITY_IMAGE_CACHE).catch(() => {});
+  }));
+};
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'cache-reality-images' && Array.isArray(event.data.urls)) {
+    event.waitUntil(cacheLoadedImages(event.data.urls));
+  }
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+  } else if (IMAGE_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, REALITY_IMAGE_CACHE));
+  } else if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, FONT_CACHE));
+  } else if (url.origin === self.location.origin || request.url.startsWith('https://cdn.tailwindcss.com') || request.url.startsWith('https://aistudiocdn.com')) {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  }
+});